@@ -0,0 +1,113 @@
+import { Event, EventState, Process, Simulation } from "../src/model.ts";
+import {
+  createEvent,
+  handleEvent,
+  initializeSimulation,
+  runSimulation,
+  scheduleEvent,
+  timeout,
+} from "../src/simulation.ts";
+
+/**
+ * Previous scheduler, kept as a baseline:
+ * appends to the events array on every schedule.
+ */
+function legacyScheduleEvent<T>(
+  sim: Simulation,
+  event: Event<T>,
+): Event<unknown>[] {
+  return [
+    ...sim.events,
+    { ...event, status: EventState.Scheduled } as Event<unknown>,
+  ];
+}
+
+/**
+ * Previous scheduler, kept as a baseline:
+ * filters and sorts the whole events array on every iteration.
+ */
+function legacyRunSimulation(sim: Simulation): void {
+  while (true) {
+    const eventsTodo = sim.events.filter((event) =>
+      (event.scheduledAt >= sim.currentTime) &&
+      (event.status === EventState.Scheduled)
+    ).sort((a, b) => b.scheduledAt - a.scheduledAt);
+
+    const event = eventsTodo.pop();
+
+    if (!event) {
+      break;
+    }
+
+    sim.currentTime = event.scheduledAt;
+
+    const { updated, state, next } = handleEvent(sim, event);
+
+    if (state) {
+      sim.state[updated.id] = state;
+    }
+
+    sim.events = sim.events.map((previous) =>
+      (previous.id === event.id) ? updated : previous
+    );
+
+    if (next) {
+      sim.events = legacyScheduleEvent(sim, next);
+    }
+  }
+}
+
+/**
+ * Model under benchmark: a set of processes sleeping in a loop,
+ * each iteration scheduling a new timeout event.
+ */
+function setup(
+  schedule: typeof scheduleEvent,
+  processes: number,
+  iterations: number,
+): Simulation {
+  const sim = initializeSimulation();
+
+  const sleeper: Process = function* (sim) {
+    for (let i = 0; i < iterations; i++) {
+      yield* timeout(sim, 1);
+    }
+  };
+
+  for (let i = 0; i < processes; i++) {
+    const event = createEvent(sim, i, sleeper);
+    sim.events = schedule(sim, event);
+  }
+
+  return sim;
+}
+
+for (const [processes, iterations] of [[10, 100], [50, 100]]) {
+  const events = processes * (iterations + 1);
+
+  Deno.bench({
+    name: `legacy scheduler (${events} events)`,
+    group: `${events} events`,
+    baseline: true,
+    fn: () => {
+      legacyRunSimulation(setup(legacyScheduleEvent, processes, iterations));
+    },
+  });
+
+  Deno.bench({
+    name: `event calendar (${events} events)`,
+    group: `${events} events`,
+    fn: () => {
+      runSimulation(setup(scheduleEvent, processes, iterations));
+    },
+  });
+}
+
+Deno.bench({
+  name: "event calendar (1000000 events)",
+  n: 1,
+  warmup: 0,
+  fn: () => {
+    runSimulation(setup(scheduleEvent, 1000, 999));
+  },
+});
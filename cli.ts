@@ -0,0 +1,230 @@
+import { runExperiment } from "./src/experiment.ts";
+import { compileFlowModel, loadFlowModel } from "./src/flow.ts";
+import { Model } from "./src/model.ts";
+import { formatExperiment, formatStats } from "./src/report.ts";
+import { initializeSimulation, runSimulationAsync } from "./src/simulation.ts";
+import { createJsonLinesSink } from "./src/trace.ts";
+
+const USAGE = `Usage: denosim <model> [options]
+
+Runs a simulation model, and prints the statistics of the run.
+
+The model is either:
+- A module (.ts, .js) exporting its setup function as \`model\`
+  (see Model), and optionally its parameters as \`params\`
+- A declarative flow model (.yaml, .yml, .json, see FLOW_MODEL_SCHEMA)
+
+Options:
+  --until <time>        Horizon of the run (defaults to running out of events)
+  --seed <seed>         Seed of the random number streams (defaults to random)
+  --replications <n>    Number of independent replications to run
+  --trace <file>        Write the trace of the run as JSON Lines
+  --report json|table   Format of the statistics (defaults to table)
+  --help                Print this message
+
+Exit codes: 0 on success, 1 on simulation errors, 2 on invalid arguments.`;
+
+/**
+ * Options of the command line, once parsed.
+ */
+interface CliOptions {
+  path: string;
+  until?: number;
+  seed?: number;
+  replications?: number;
+  trace?: string;
+  report: "json" | "table";
+}
+
+/**
+ * Model loaded from the command line, with its defaults.
+ */
+interface CliModel {
+  name: string;
+  model: Model<unknown>;
+  params?: unknown;
+  until?: number;
+  seed?: number;
+}
+
+/**
+ * Runs the command line (see USAGE).
+ * Returns the exit code of the command.
+ */
+export async function main(args: string[]): Promise<number> {
+  if (args.includes("--help")) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const options = parseOptions(args);
+
+  if (typeof options === "string") {
+    console.error(`${options}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const loaded = await loadModel(options.path);
+    const until = options.until ?? loaded.until ?? Infinity;
+    const seed = options.seed ?? loaded.seed;
+
+    if (options.replications !== undefined) {
+      const result = runExperiment(loaded.model, loaded.params, {
+        replications: options.replications,
+        length: until,
+        seed,
+      });
+
+      console.log(
+        (options.report === "json")
+          ? JSON.stringify(result, null, 2)
+          : formatExperiment(result),
+      );
+
+      return 0;
+    }
+
+    const sim = initializeSimulation({ seed });
+    const lines: string[] = [];
+    const trace = options.trace
+      ? { sink: createJsonLinesSink((line) => lines.push(line)) }
+      : undefined;
+
+    loaded.model(sim, loaded.params);
+
+    try {
+      const stats = await runSimulationAsync(sim, { until, trace });
+
+      console.log(
+        (options.report === "json")
+          ? JSON.stringify(
+            {
+              model: loaded.name,
+              seed: sim.seed,
+              time: sim.currentTime,
+              stats,
+            },
+            null,
+            2,
+          )
+          : `Model: ${loaded.name} (seed: ${sim.seed})\n` +
+            `Simulation ended at ${sim.currentTime}\n\n` +
+            formatStats(stats),
+      );
+    } finally {
+      // Keep the trace up to the error, if any
+      if (options.trace) {
+        await Deno.writeTextFile(options.trace, lines.join("\n") + "\n");
+      }
+    }
+
+    return 0;
+  } catch (error) {
+    console.error(
+      (error instanceof Error) ? `${error.name}: ${error.message}` : error,
+    );
+    return 1;
+  }
+}
+
+/**
+ * Parses the command line arguments.
+ * Returns the problem found if they are invalid.
+ */
+function parseOptions(args: string[]): CliOptions | string {
+  const paths: string[] = [];
+  const values: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].split(/=(.*)/s, 2);
+
+    if (!flag.startsWith("--")) {
+      paths.push(args[i]);
+      continue;
+    }
+
+    const name = flag.slice(2);
+    const value = inline ?? args[++i];
+
+    if (!["until", "seed", "replications", "trace", "report"].includes(name)) {
+      return `Unknown option: ${flag}`;
+    }
+
+    if (value === undefined) {
+      return `Missing value of option: ${flag}`;
+    }
+
+    values[name] = value;
+  }
+
+  if (paths.length !== 1) {
+    return "Expected exactly one model";
+  }
+
+  const number = (name: string, valid: (value: number) => boolean) => {
+    const value = (values[name] === undefined)
+      ? undefined
+      : Number(values[name]);
+    return (value === undefined || valid(value)) ? value : NaN;
+  };
+
+  const until = number("until", (value) => value > 0);
+  const seed = number("seed", (value) => Number.isInteger(value) && value >= 0);
+  const replications = number(
+    "replications",
+    (value) => Number.isInteger(value) && value > 0,
+  );
+  const report = values.report ?? "table";
+
+  for (const [name, value] of Object.entries({ until, seed, replications })) {
+    if (Number.isNaN(value)) {
+      return `Invalid value of option --${name}: ${values[name]}`;
+    }
+  }
+
+  if (report !== "json" && report !== "table") {
+    return `Invalid value of option --report: ${report}`;
+  }
+
+  if (replications !== undefined && values.trace !== undefined) {
+    return "Options --replications and --trace can't be combined";
+  }
+
+  return {
+    path: paths[0],
+    until,
+    seed,
+    replications,
+    trace: values.trace,
+    report,
+  };
+}
+
+/**
+ * Loads a model from a module or a declarative flow model file.
+ */
+async function loadModel(path: string): Promise<CliModel> {
+  if (/\.(ya?ml|json)$/.test(path)) {
+    const definition = await loadFlowModel(path);
+
+    return {
+      name: definition.name ?? path,
+      model: compileFlowModel(definition) as Model<unknown>,
+      until: definition.until,
+      seed: definition.seed,
+    };
+  }
+
+  const module = await import(new URL(path, `file://${Deno.cwd()}/`).href);
+
+  if (typeof module.model !== "function") {
+    throw TypeError(`Module ${path} doesn't export a model function`);
+  }
+
+  return { name: path, model: module.model, params: module.params };
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
@@ -1,14 +1,17 @@
-import { Event, Process, ProcessState, Simulation } from "../src/model.ts";
 import {
-  createEvent,
-  initializeSimulation,
-  runSimulation,
-  scheduleEvent,
-} from "../src/simulation.ts";
-
-if (import.meta.main) {
-  const sim = initializeSimulation();
-
+  Event,
+  Model,
+  Process,
+  ProcessState,
+  Simulation,
+} from "../src/model.ts";
+import { createEvent, scheduleEvent } from "../src/simulation.ts";
+
+/**
+ * Processes sharing the item carried by their events.
+ * Run with: deno task denosim examples/event-item.ts
+ */
+export const model: Model = (sim: Simulation) => {
   const foo: Process<Record<string, string | undefined>> = function* (
     sim: Simulation,
     event: Event<Record<string, string | undefined>>,
@@ -40,10 +43,4 @@ if (import.meta.main) {
 
   const e2 = createEvent(sim, 25, foo, barStore);
   sim.events = scheduleEvent(sim, e2);
-
-  const stats = runSimulation(sim);
-
-  console.log(`Simulation ended at ${sim.currentTime}`);
-  console.log(`Simulation took: ${stats.duration} ms`);
-  console.log("Events:", JSON.stringify(sim.events, null, 2));
-}
+};
@@ -0,0 +1,84 @@
+import { Event, Model, Process, Simulation } from "../src/model.ts";
+import {
+  getLevelMonitor,
+  getTally,
+  recordLevel,
+  recordTally,
+} from "../src/monitors.ts";
+import { exponential, getStream } from "../src/random.ts";
+import { createResource, release, request } from "../src/resources.ts";
+import { spawn, timeout } from "../src/simulation.ts";
+import { runExperimentInWorkers, runSweep } from "../src/experiment.ts";
+
+/**
+ * Single server queue (M/M/1): customers arrive at random,
+ * wait for the server, and get served for a random time.
+ * Records the waiting times ("wait") and the number of customers in the
+ * system ("customers").
+ */
+export const model: Model<{ arrival: number; service: number }> = (
+  sim: Simulation,
+  { arrival, service },
+) => {
+  const server = createResource(sim, 1);
+  const customers = getLevelMonitor(sim, "customers");
+
+  const customer: Process = function* (sim: Simulation, event: Event) {
+    const arrivedAt = sim.currentTime;
+    recordLevel(sim, customers, customers.level + 1);
+
+    yield* request(sim, event, server);
+    recordTally(getTally(sim, "wait"), sim.currentTime - arrivedAt);
+
+    yield* timeout(sim, exponential(getStream(sim, "service"), service));
+    release(sim, event, server);
+    recordLevel(sim, customers, customers.level - 1);
+  };
+
+  const source: Process = function* (sim: Simulation) {
+    while (true) {
+      yield* timeout(sim, exponential(getStream(sim, "arrival"), arrival));
+      spawn(sim, customer);
+    }
+  };
+
+  spawn(sim, source);
+};
+
+/**
+ * Default parameters of the model, when run from the command line.
+ */
+export const params = { arrival: 1, service: 0.8 };
+
+/**
+ * Expected output: the mean waiting time grows as the server gets busier
+ * (theoretical values: 0.5, 3.2 and 8.1 for service times of 0.5, 0.8 and 0.9).
+ */
+if (import.meta.main) {
+  const options = { replications: 10, warmup: 1000, length: 10000, seed: 1 };
+
+  for (
+    const result of runSweep(
+      model,
+      { arrival: [1], service: [0.5, 0.8, 0.9] },
+      options,
+    )
+  ) {
+    const { mean, halfWidth } = result.metrics["tallies.wait"];
+    console.log(
+      `service ${result.params.service}: ` +
+        `mean wait ${mean.toFixed(2)} ± ${halfWidth.toFixed(2)}`,
+    );
+  }
+
+  // Same replications, run in parallel workers
+  const result = await runExperimentInWorkers(
+    import.meta.url,
+    { arrival: 1, service: 0.9 },
+    options,
+  );
+  const { mean, halfWidth } = result.metrics["tallies.wait"];
+  console.log(
+    `workers: mean wait ${mean.toFixed(2)} ± ${halfWidth.toFixed(2)}`,
+  );
+}
@@ -1,15 +1,12 @@
-import { Event, Process, Simulation, Store } from "../src/model.ts";
+import { Event, Model, Process, Simulation, Store } from "../src/model.ts";
 import { createStore, get, put } from "../src/resources.ts";
-import {
-  createEvent,
-  initializeSimulation,
-  runSimulation,
-  scheduleEvent,
-} from "../src/simulation.ts";
-
-if (import.meta.main) {
-  const sim = initializeSimulation();
+import { createEvent, scheduleEvent } from "../src/simulation.ts";
 
+/**
+ * Producers putting items in a store, and consumers getting them.
+ * Run with: deno task denosim examples/prod-cons.ts
+ */
+export const model: Model = (sim: Simulation) => {
   const store: Store<string> = createStore<string>();
 
   let consCount = 0;
@@ -55,10 +52,4 @@ if (import.meta.main) {
 
   const e6 = createEvent(sim, 60, cons);
   sim.events = scheduleEvent(sim, e6);
-
-  const stats = runSimulation(sim);
-
-  console.log(`Simulation ended at ${sim.currentTime}`);
-  console.log(`Simulation took: ${stats.duration} ms`);
-  console.log("Events:", JSON.stringify(sim.events, null, 2));
-}
+};
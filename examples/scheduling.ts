@@ -1,13 +1,15 @@
-import { Event, Process, ProcessState, Simulation } from "../src/model.ts";
 import {
-  createEvent,
-  initializeSimulation,
-  runSimulation,
-  scheduleEvent,
-  timeout,
-} from "../src/simulation.ts";
+  Event,
+  Model,
+  Process,
+  ProcessState,
+  Simulation,
+} from "../src/model.ts";
+import { createEvent, scheduleEvent, timeout } from "../src/simulation.ts";
 
 /**
+ * Run with: deno task denosim examples/scheduling.ts
+ *
  * Expected output:
  *
  * [10] foo
@@ -20,9 +22,7 @@ import {
  * [50] foo
  * Simulation ended at 50
  */
-if (import.meta.main) {
-  const sim = initializeSimulation();
-
+export const model: Model = (sim: Simulation) => {
   const foo: Process = function* (
     sim: Simulation,
     _event: Event,
@@ -75,10 +75,4 @@ if (import.meta.main) {
 
   const e5 = createEvent(sim, 50, foo);
   sim.events = scheduleEvent(sim, e5);
-
-  const stats = runSimulation(sim);
-
-  console.log(`Simulation ended at ${sim.currentTime}`);
-  console.log(`Simulation took: ${stats.duration} ms`);
-  console.log("Events:", JSON.stringify(sim.events, null, 2));
-}
+};
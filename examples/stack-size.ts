@@ -1,22 +1,24 @@
-import { Event, Process, ProcessState, Simulation } from "../src/model.ts";
 import {
-  createEvent,
-  initializeSimulation,
-  runSimulation,
-  scheduleEvent,
-  timeout,
-} from "../src/simulation.ts";
-
-if (import.meta.main) {
-  const sim = initializeSimulation();
+  Event,
+  Model,
+  Process,
+  ProcessState,
+  Simulation,
+} from "../src/model.ts";
+import { createEvent, scheduleEvent, timeout } from "../src/simulation.ts";
 
+/**
+ * Process sleeping in an endless loop, to check that the stack doesn't grow.
+ * Run with: deno task denosim examples/stack-size.ts --until 10000000
+ */
+export const model: Model = (sim: Simulation) => {
   let FOO = 0;
 
   const foo: Process = function* (
     sim: Simulation,
     event: Event,
   ): ProcessState {
-    while (sim.currentTime < 10000000) {
+    while (true) {
       console.log(`[${sim.currentTime}] ${event.id} -- foo @ sleep: ${FOO}`);
       yield* timeout(sim, 1);
       FOO += 1;
@@ -26,9 +28,4 @@ if (import.meta.main) {
 
   const e1 = createEvent(sim, 0, foo);
   sim.events = scheduleEvent(sim, e1);
-
-  const stats = runSimulation(sim);
-
-  console.log(`Simulation ended at ${sim.currentTime}`);
-  console.log(`Simulation took: ${stats.duration} ms`);
-}
+};
@@ -1,3 +1,16 @@
+export * from "./src/chrome.ts";
+export * from "./src/entities.ts";
+export * from "./src/environment.ts";
+export * from "./src/experiment.ts";
+export * from "./src/flow.ts";
 export * from "./src/model.ts";
+export * from "./src/monitors.ts";
+export * from "./src/queue.ts";
+export * from "./src/random.ts";
+export * from "./src/realtime.ts";
+export * from "./src/report.ts";
 export * from "./src/resources.ts";
+export * from "./src/schedules.ts";
 export * from "./src/simulation.ts";
+export * from "./src/snapshot.ts";
+export * from "./src/trace.ts";
@@ -0,0 +1,179 @@
+import {
+  ChromeTrace,
+  ChromeTraceEvent,
+  ChromeTraceOptions,
+  TraceKind,
+  TraceRecord,
+} from "./model.ts";
+
+/**
+ * Track group of the processes in Chrome traces.
+ */
+const PROCESSES = 1;
+
+/**
+ * Track group of the stores and resources in Chrome traces.
+ */
+const RESOURCES = 2;
+
+/**
+ * Converts the trace records of a run (see trace.ts) to the Chrome Trace
+ * Event format, to open in a trace viewer (chrome://tracing, Perfetto):
+ * - One track per process (event ID), showing when it was pending
+ *   (scheduled but not started yet), its lifetime from start to finish,
+ *   its waits between a yield and its continuation, and its instant steps
+ * - One track per store or resource, showing its operations
+ * - One counter track per store or resource, showing its queue length
+ * Processes still running at the end of the records end at the last record.
+ */
+export function toChromeTrace(
+  records: TraceRecord[],
+  options: ChromeTraceOptions = {},
+): ChromeTrace {
+  const scale = options.timeScale ?? 1000;
+  const traceEvents: ChromeTraceEvent[] = [
+    metadata("process_name", PROCESSES, 0, "Processes"),
+    metadata("process_name", RESOURCES, 0, "Resources"),
+  ];
+  const tracks = new Map<string, number>();
+  const firedAt: Record<string, number> = {};
+  const startedAt: Record<string, number> = {};
+  const waitingSince: Record<string, number> = {};
+  const names: Record<string, string> = {};
+
+  // Returns the track of a process or resource, declaring it on first use
+  const track = (group: number, key: string, name: string): number => {
+    let tid = tracks.get(`${group}:${key}`);
+
+    if (tid === undefined) {
+      tid = tracks.size + 1;
+      tracks.set(`${group}:${key}`, tid);
+      traceEvents.push(metadata("thread_name", group, tid, name));
+    }
+
+    return tid;
+  };
+
+  const span = (
+    name: string,
+    tid: number,
+    from: number,
+    to: number,
+    args?: Record<string, unknown>,
+  ) => {
+    traceEvents.push({
+      name,
+      ph: "X",
+      pid: PROCESSES,
+      tid,
+      ts: from * scale,
+      dur: (to - from) * scale,
+      args,
+    });
+  };
+
+  // Ends the current wait of a process, if any
+  const resume = (id: string, tid: number, time: number) => {
+    if (waitingSince[id] !== undefined && time > waitingSince[id]) {
+      span("wait", tid, waitingSince[id], time);
+    }
+
+    delete waitingSince[id];
+  };
+
+  for (const record of records) {
+    const { id, time, kind } = record;
+
+    if (record.process === "idle" && !options.idle) {
+      continue;
+    }
+
+    const tid = track(PROCESSES, id, `${record.process} ${id.slice(0, 8)}`);
+    names[id] = record.process;
+
+    // Store and resource operations appear on their own tracks too
+    if (record.resource !== undefined) {
+      const resource = track(RESOURCES, record.resource, record.resource);
+
+      traceEvents.push({
+        name: `${kind} ${record.process}`,
+        ph: "i",
+        s: "t",
+        pid: RESOURCES,
+        tid: resource,
+        ts: time * scale,
+        args: { id, item: record.item },
+      });
+
+      traceEvents.push({
+        name: record.resource,
+        ph: "C",
+        pid: RESOURCES,
+        tid: resource,
+        ts: time * scale,
+        args: { queue: record.queue },
+      });
+    }
+
+    switch (kind) {
+      case TraceKind.Schedule:
+        firedAt[id] ??= time;
+        continue;
+      case TraceKind.Start:
+        if (time > firedAt[id]) {
+          span("pending", tid, firedAt[id], time);
+        }
+        startedAt[id] = time;
+        continue;
+      case TraceKind.Yield:
+        resume(id, tid, time);
+        waitingSince[id] = time;
+        break;
+      case TraceKind.Resume:
+        resume(id, tid, time);
+        break;
+      case TraceKind.Finish:
+        resume(id, tid, time);
+        span(record.process, tid, startedAt[id] ?? time, time, {
+          id,
+          status: record.status,
+        });
+        delete startedAt[id];
+        break;
+    }
+
+    traceEvents.push({
+      name: kind,
+      ph: "i",
+      s: "t",
+      pid: PROCESSES,
+      tid,
+      ts: time * scale,
+      args: { id, next: record.next, item: record.item },
+    });
+  }
+
+  // Close the processes still running at the end of the run
+  const end = records[records.length - 1]?.time ?? 0;
+
+  for (const id of Object.keys(startedAt)) {
+    const tid = tracks.get(`${PROCESSES}:${id}`)!;
+
+    resume(id, tid, end);
+    span(names[id], tid, startedAt[id], end, { id });
+  }
+
+  return { traceEvents, displayTimeUnit: "ms" };
+}
+
+/**
+ * Creates a metadata event naming a track group or a track.
+ */
+function metadata(
+  name: "process_name" | "thread_name",
+  pid: number,
+  tid: number,
+  value: string,
+): ChromeTraceEvent {
+  return { name, ph: "M", pid, tid, ts: 0, args: { name: value } };
+}
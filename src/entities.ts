@@ -0,0 +1,152 @@
+import {
+  AsyncProcess,
+  Entity,
+  EntityWait,
+  Event,
+  Process,
+  ProcessState,
+  Resource,
+  Simulation,
+  SourceOptions,
+} from "./model.ts";
+import {
+  getLevelMonitor,
+  getSink,
+  getTally,
+  recordLevel,
+  recordTally,
+} from "./monitors.ts";
+import { request } from "./resources.ts";
+import { createEvent, scheduleEvent, spawn, timeout } from "./simulation.ts";
+
+/**
+ * Creates entities arriving at fixed or random intervals, and starts
+ * the given process for each of them, carrying the entity as its item.
+ * Stops after `maxEntities` arrivals, or before the `until` time.
+ * Tracks the number of entities in the model (level monitor
+ * "<name>.inSystem"), until they reach a sink (see sink()).
+ * Returns the handle of the source: cancel it with cancelEvent()
+ * to stop future arrivals.
+ */
+export function source<T extends Entity = Entity>(
+  sim: Simulation,
+  options: SourceOptions<T>,
+  process: Process<T> | AsyncProcess<T>,
+): Event<void> {
+  const { interarrival, factory } = options;
+  const name = options.name ?? "source";
+  const maxEntities = options.maxEntities ?? Infinity;
+  const until = options.until ?? Infinity;
+
+  if (typeof interarrival === "number" && !(interarrival > 0)) {
+    throw RangeError(`Invalid interarrival time: ${interarrival}`);
+  }
+
+  // Measure the number of entities in the model from now on
+  const inSystem = getLevelMonitor(sim, `${name}.inSystem`);
+
+  const arrivals: Process = function* (sim) {
+    for (let id = 1; id <= maxEntities && sim.currentTime < until; id++) {
+      const entity: Entity = {
+        id,
+        source: name,
+        createdAt: sim.currentTime,
+        waits: [],
+      };
+
+      recordLevel(sim, inSystem, inSystem.level + 1);
+      spawn(sim, process, factory ? factory(sim, entity) : entity as T);
+
+      if (id >= maxEntities) {
+        return;
+      }
+
+      const delay = (typeof interarrival === "number")
+        ? interarrival
+        : interarrival(sim);
+
+      if (!(delay >= 0)) {
+        throw RangeError(`Invalid interarrival time: ${delay}`);
+      }
+
+      yield* timeout(sim, delay);
+    }
+  };
+
+  const event = createEvent(sim, options.start ?? sim.currentTime, arrivals);
+  sim.events = scheduleEvent(sim, event);
+
+  return event;
+}
+
+/**
+ * Blocking operation that requests a resource on behalf of an entity
+ * (see request()), recording the wait in the entity's timestamps.
+ */
+export function* acquire<T>(
+  sim: Simulation,
+  event: Event<T>,
+  resource: Resource,
+  entity: Entity,
+  priority?: number,
+): ProcessState<T> {
+  const wait: EntityWait = {
+    resource: resource.name,
+    requestedAt: sim.currentTime,
+  };
+
+  entity.waits = [...entity.waits, wait];
+
+  yield* request(sim, event, resource, priority);
+
+  wait.acquiredAt = sim.currentTime;
+}
+
+/**
+ * Returns the total time an entity has waited for resources
+ * (waits still in progress are not counted).
+ */
+export function waitingTime(entity: Entity): number {
+  return entity.waits.reduce(
+    (total, { requestedAt, acquiredAt }) =>
+      (acquiredAt === undefined) ? total : total + acquiredAt - requestedAt,
+    0,
+  );
+}
+
+/**
+ * Makes an entity leave the model through the named sink
+ * (defaults to "sink"), stamping its exit time.
+ * Feeds the statistics of the sink:
+ * - Its throughput (see getSink())
+ * - The time in system of the entities (tally monitor "<name>.timeInSystem")
+ * - Their total waiting time for resources (tally monitor "<name>.waitingTime")
+ * - The number of entities in the model (level monitor "<source>.inSystem")
+ */
+export function sink(
+  sim: Simulation,
+  entity: Entity,
+  name: string = "sink",
+): void {
+  if (entity.exitedAt !== undefined) {
+    throw Error(
+      `Entity ${entity.id} of source ${entity.source} has already exited ` +
+        `(at ${entity.exitedAt})`,
+    );
+  }
+
+  entity.exitedAt = sim.currentTime;
+  getSink(sim, name).exited += 1;
+
+  recordTally(
+    getTally(sim, `${name}.timeInSystem`),
+    entity.exitedAt - entity.createdAt,
+  );
+  recordTally(getTally(sim, `${name}.waitingTime`), waitingTime(entity));
+
+  const inSystem = sim.levels[`${entity.source}.inSystem`];
+
+  if (inSystem) {
+    recordLevel(sim, inSystem, inSystem.level - 1);
+  }
+}
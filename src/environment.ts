@@ -0,0 +1,241 @@
+import {
+  AsyncProcess,
+  Container,
+  Event,
+  EventPriority,
+  Process,
+  ProcessState,
+  Resource,
+  RunSimulationOptions,
+  Simulation,
+  SimulationOptions,
+  SimulationStats,
+  Store,
+} from "./model.ts";
+import {
+  createContainer,
+  createPreemptiveResource,
+  createPriorityResource,
+  createPriorityStore,
+  createResource,
+  createStore,
+  get,
+  put,
+  release,
+  request,
+} from "./resources.ts";
+import {
+  cancelEvent,
+  createEvent,
+  initializeSimulation,
+  interrupt,
+  peek,
+  runSimulation,
+  runSimulationAsync,
+  scheduleEvent,
+  spawn,
+  step,
+  timeout,
+} from "./simulation.ts";
+
+/**
+ * Object-oriented facade over a simulation and the functional API.
+ * Every method delegates to the function of the same purpose,
+ * so both styles can be mixed on the same simulation (see `sim`).
+ *
+ * ```ts
+ * const env = new Environment({ seed: 42 });
+ * const server = env.resource(1, "server");
+ *
+ * env.process(function* (_sim, event) {
+ *   yield* env.request(event, server);
+ *   yield* env.timeout(5);
+ *   env.release(event, server);
+ * });
+ *
+ * env.run({ until: 100 });
+ * ```
+ */
+export class Environment {
+  /** The underlying simulation */
+  readonly sim: Simulation;
+
+  constructor(options: SimulationOptions = {}) {
+    this.sim = initializeSimulation(options);
+  }
+
+  /** Current simulation time */
+  get now(): number {
+    return this.sim.currentTime;
+  }
+
+  /** History of the events of the simulation */
+  get events(): Event<unknown>[] {
+    return this.sim.events;
+  }
+
+  /**
+   * Starts a new process at the current time (see spawn()).
+   * Returns its event, a handle to wait for its completion.
+   */
+  process<T>(process: Process<T> | AsyncProcess<T>, item?: T): Event<T> {
+    return spawn(this.sim, process, item);
+  }
+
+  /**
+   * Creates a new event, without scheduling it (see createEvent()).
+   */
+  event<T>(
+    scheduledAt: number,
+    callback?: Process<T> | AsyncProcess<T>,
+    item?: T,
+    priority: number = EventPriority.Normal,
+  ): Event<T> {
+    return createEvent(this.sim, scheduledAt, callback, item, priority);
+  }
+
+  /**
+   * Schedules an event (see scheduleEvent()).
+   * Returns the scheduled event.
+   */
+  schedule<T>(event: Event<T>): Event<T> {
+    scheduleEvent(this.sim, event);
+
+    return event;
+  }
+
+  /**
+   * Blocking operation waiting for the given duration (see timeout()).
+   */
+  timeout<T>(
+    duration: number,
+    callback?: Process<T> | AsyncProcess<T>,
+    item?: T,
+  ): ProcessState<T> {
+    return timeout(this.sim, duration, callback, item);
+  }
+
+  /**
+   * Cancels a scheduled event, or a paused process (see cancelEvent()).
+   */
+  cancel(id: string): void {
+    cancelEvent(this.sim, id);
+  }
+
+  /**
+   * Interrupts a paused process (see interrupt()).
+   */
+  interrupt(id: string, cause?: unknown): void {
+    interrupt(this.sim, id, cause);
+  }
+
+  /**
+   * Runs the simulation (see runSimulation()).
+   */
+  run(options: RunSimulationOptions = {}): SimulationStats {
+    return runSimulation(this.sim, options);
+  }
+
+  /**
+   * Runs the simulation with asynchronous processes (see runSimulationAsync()).
+   */
+  runAsync(options: RunSimulationOptions = {}): Promise<SimulationStats> {
+    return runSimulationAsync(this.sim, options);
+  }
+
+  /**
+   * Processes exactly one event (see step()).
+   */
+  step(): Event<unknown> | undefined {
+    return step(this.sim);
+  }
+
+  /**
+   * Time of the next event to process (see peek()).
+   */
+  peek(): number {
+    return peek(this.sim);
+  }
+
+  /**
+   * Creates a new store (see createStore()).
+   */
+  store<T>(capacity: number = Infinity, name?: string): Store<T> {
+    return createStore<T>(capacity, name);
+  }
+
+  /**
+   * Creates a new priority store (see createPriorityStore()).
+   */
+  priorityStore<T>(
+    key: (item: T) => number,
+    capacity: number = Infinity,
+    name?: string,
+  ): Store<T> {
+    return createPriorityStore(key, capacity, name);
+  }
+
+  /**
+   * Creates a new resource (see createResource()).
+   */
+  resource(capacity: number, name?: string): Resource {
+    return createResource(this.sim, capacity, name);
+  }
+
+  /**
+   * Creates a new priority resource (see createPriorityResource()).
+   */
+  priorityResource(capacity: number, name?: string): Resource {
+    return createPriorityResource(this.sim, capacity, name);
+  }
+
+  /**
+   * Creates a new preemptive resource (see createPreemptiveResource()).
+   */
+  preemptiveResource(capacity: number, name?: string): Resource {
+    return createPreemptiveResource(this.sim, capacity, name);
+  }
+
+  /**
+   * Creates a new container (see createContainer()).
+   */
+  container(capacity: number = Infinity, level: number = 0): Container {
+    return createContainer(this.sim, capacity, level);
+  }
+
+  /**
+   * Blocking operation getting an item from a store (see get()).
+   */
+  get<T>(
+    event: Event<T>,
+    store: Store<T>,
+    filter?: (item: T) => boolean,
+  ): ProcessState<T> {
+    return get(this.sim, event, store, filter);
+  }
+
+  /**
+   * Operation putting an item in a store (see put()).
+   */
+  put<T>(event: Event<T>, store: Store<T>, item: T): ProcessState<T> {
+    return put(this.sim, event, store, item);
+  }
+
+  /**
+   * Blocking operation requesting a slot of a resource (see request()).
+   */
+  request<T>(
+    event: Event<T>,
+    resource: Resource,
+    priority?: number,
+  ): ProcessState<T> {
+    return request(this.sim, event, resource, priority);
+  }
+
+  /**
+   * Operation giving back a slot of a resource (see release()).
+   */
+  release<T>(event: Event<T>, resource: Resource): void {
+    return release(this.sim, event, resource);
+  }
+}
@@ -0,0 +1,259 @@
+import {
+  ExperimentOptions,
+  ExperimentResult,
+  Model,
+  ReplicationResult,
+  Simulation,
+  SimulationStats,
+  Tally,
+} from "./model.ts";
+import {
+  confidenceInterval,
+  createTally,
+  recordTally,
+  resetMonitors,
+} from "./monitors.ts";
+import { createSeed, deriveSeed } from "./random.ts";
+import { initializeSimulation, runSimulation } from "./simulation.ts";
+
+/**
+ * Default metrics of a replication:
+ * - The automatic run statistics (eventsProcessed, meanWait)
+ * - The mean of each tally monitor (as "tallies.<name>")
+ * - The time-weighted mean of each level monitor (as "levels.<name>")
+ * - The throughput of each sink of entities (as "sinks.<name>")
+ */
+export function defaultMetrics(
+  _sim: Simulation,
+  stats: SimulationStats,
+): Record<string, number> {
+  const metrics: Record<string, number> = {
+    eventsProcessed: stats.eventsProcessed,
+    meanWait: stats.meanWait,
+  };
+
+  for (const [name, summary] of Object.entries(stats.tallies)) {
+    metrics[`tallies.${name}`] = summary.mean;
+  }
+
+  for (const [name, summary] of Object.entries(stats.levels)) {
+    metrics[`levels.${name}`] = summary.mean;
+  }
+
+  for (const [name, summary] of Object.entries(stats.sinks)) {
+    metrics[`sinks.${name}`] = summary.throughput;
+  }
+
+  return metrics;
+}
+
+/**
+ * Returns the seeds of the replications of an experiment,
+ * derived from its seed so that the whole experiment is reproducible.
+ */
+export function replicationSeeds(seed: number, replications: number): number[] {
+  return Array.from(
+    { length: replications },
+    (_, i) => deriveSeed(seed, `replication-${i}`),
+  );
+}
+
+/**
+ * Runs a single replication of a model:
+ * - Builds the model in a new simulation with the given seed
+ * - Runs it until the end of the warm-up, then resets its monitors
+ *   and the usage statistics of its resources (see resetMonitors())
+ * - Runs it for the given length, and extracts its metrics
+ */
+export function runReplication<P>(
+  model: Model<P>,
+  params: P,
+  seed: number,
+  options: Omit<ExperimentOptions, "replications" | "seed" | "confidence">,
+): ReplicationResult {
+  const warmup = options.warmup ?? 0;
+  const sim = initializeSimulation({ seed });
+
+  model(sim, params);
+
+  // Discard the observations of the warm-up period
+  if (warmup > 0) {
+    runSimulation(sim, { until: warmup });
+    resetMonitors(sim);
+  }
+
+  const stats = runSimulation(sim, { until: warmup + options.length });
+
+  return {
+    seed,
+    metrics: (options.metrics ?? defaultMetrics)(sim, stats),
+  };
+}
+
+/**
+ * Summarizes the replications of an experiment:
+ * computes the confidence interval of the mean of each metric.
+ */
+export function summarizeReplications<P>(
+  params: P,
+  replications: ReplicationResult[],
+  confidence: number = 0.95,
+): ExperimentResult<P> {
+  const tallies: Record<string, Tally> = {};
+
+  for (const replication of replications) {
+    for (const [name, value] of Object.entries(replication.metrics)) {
+      recordTally(tallies[name] ??= createTally(), value);
+    }
+  }
+
+  return {
+    params,
+    replications,
+    metrics: Object.fromEntries(
+      Object.entries(tallies).map((
+        [name, tally],
+      ) => [name, confidenceInterval(tally, confidence)]),
+    ),
+  };
+}
+
+/**
+ * Runs independent replications of a model with the given parameters,
+ * one after the other.
+ * Returns the metrics of every replication and their confidence intervals.
+ */
+export function runExperiment<P>(
+  model: Model<P>,
+  params: P,
+  options: ExperimentOptions,
+): ExperimentResult<P> {
+  validateExperiment(options);
+
+  const seeds = replicationSeeds(
+    options.seed ?? createSeed(),
+    options.replications,
+  );
+
+  return summarizeReplications(
+    params,
+    seeds.map((seed) => runReplication(model, params, seed, options)),
+    options.confidence,
+  );
+}
+
+/**
+ * Runs independent replications of a model in parallel Deno workers.
+ * Models and metrics can't be sent to workers, so they are imported
+ * by each worker from a module exporting `model` (and optionally `metrics`).
+ * The parameters must be structured-cloneable.
+ * Workers need read access to their modules (--allow-read).
+ * Results are the same as runExperiment() for the same seed.
+ */
+export async function runExperimentInWorkers<P>(
+  module: string | URL,
+  params: P,
+  options: Omit<ExperimentOptions, "metrics"> & { workers?: number },
+): Promise<ExperimentResult<P>> {
+  validateExperiment(options);
+
+  const seeds = replicationSeeds(
+    options.seed ?? createSeed(),
+    options.replications,
+  );
+  const results: ReplicationResult[] = new Array(seeds.length);
+  const count = Math.min(
+    options.workers ?? navigator.hardwareConcurrency,
+    seeds.length,
+  );
+  let next = 0;
+
+  // Each worker takes the next pending replication until none is left
+  const work = async () => {
+    const worker = new Worker(new URL("./worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    try {
+      while (next < seeds.length) {
+        const i = next++;
+
+        results[i] = await new Promise<ReplicationResult>((resolve, reject) => {
+          worker.onmessage = (message) =>
+            ("error" in message.data)
+              ? reject(Error(message.data.error))
+              : resolve(message.data);
+          worker.onerror = (error) => {
+            error.preventDefault();
+            reject(Error(error.message));
+          };
+          worker.postMessage({
+            module: module.toString(),
+            params,
+            seed: seeds[i],
+            warmup: options.warmup,
+            length: options.length,
+          });
+        });
+      }
+    } finally {
+      worker.terminate();
+    }
+  };
+
+  await Promise.all(Array.from({ length: count }, work));
+
+  return summarizeReplications(params, results, options.confidence);
+}
+
+/**
+ * Returns every combination of the given parameter values (cartesian product),
+ * in order, the last parameter varying fastest.
+ */
+export function parameterGrid<P extends Record<string, unknown>>(
+  grid: { [K in keyof P]: P[K][] },
+): P[] {
+  return Object.entries(grid).reduce<Record<string, unknown>[]>(
+    (combinations, [name, values]) =>
+      combinations.flatMap((combination) =>
+        (values as unknown[]).map((value) => ({
+          ...combination,
+          [name]: value,
+        }))
+      ),
+    [{}],
+  ) as P[];
+}
+
+/**
+ * Runs an experiment on every scenario of a parameter grid (parameter sweep).
+ * Every scenario uses the same replication seeds (common random numbers),
+ * so that scenarios are compared on the same random draws.
+ */
+export function runSweep<P extends Record<string, unknown>>(
+  model: Model<P>,
+  grid: { [K in keyof P]: P[K][] },
+  options: ExperimentOptions,
+): ExperimentResult<P>[] {
+  const seed = options.seed ?? createSeed();
+
+  return parameterGrid(grid).map((params) =>
+    runExperiment(model, params, { ...options, seed })
+  );
+}
+
+/**
+ * Checks the options of an experiment.
+ */
+function validateExperiment(options: ExperimentOptions): void {
+  if (!(Number.isInteger(options.replications) && options.replications > 0)) {
+    throw RangeError(`Invalid number of replications: ${options.replications}`);
+  }
+
+  if ((options.warmup ?? 0) < 0 || !(options.length > 0)) {
+    throw RangeError(
+      `Invalid experiment period: warm-up ${options.warmup}, ` +
+        `length ${options.length}`,
+    );
+  }
+}
@@ -0,0 +1,845 @@
+import { parse as parseYaml } from "@std/yaml";
+import { acquire, sink, source } from "./entities.ts";
+import {
+  DistributionDefinition,
+  Entity,
+  FlowBlockDefinition,
+  FlowModel,
+  JsonSchema,
+  Model,
+  Process,
+  Resource,
+  Simulation,
+} from "./model.ts";
+import {
+  getLevelMonitor,
+  getTally,
+  recordLevel,
+  recordTally,
+} from "./monitors.ts";
+import {
+  discrete,
+  empirical,
+  exponential,
+  getStream,
+  lognormal,
+  normal,
+  triangular,
+  uniform,
+  weibull,
+} from "./random.ts";
+import {
+  createPriorityResource,
+  createResource,
+  release,
+} from "./resources.ts";
+import { timeout } from "./simulation.ts";
+
+/**
+ * Distribution parameters, by distribution name.
+ * Draws are durations, so they can't be negative.
+ */
+const DISTRIBUTIONS: Record<string, Record<string, JsonSchema>> = {
+  constant: { value: { type: "number", minimum: 0 } },
+  uniform: {
+    min: { type: "number", minimum: 0 },
+    max: { type: "number", minimum: 0 },
+  },
+  exponential: { mean: { type: "number", exclusiveMinimum: 0 } },
+  normal: { mean: { type: "number" }, stddev: { type: "number", minimum: 0 } },
+  lognormal: { mu: { type: "number" }, sigma: { type: "number", minimum: 0 } },
+  triangular: {
+    min: { type: "number", minimum: 0 },
+    mode: { type: "number", minimum: 0 },
+    max: { type: "number", minimum: 0 },
+  },
+  weibull: {
+    scale: { type: "number", exclusiveMinimum: 0 },
+    shape: { type: "number", exclusiveMinimum: 0 },
+  },
+  empirical: {
+    samples: {
+      type: "array",
+      items: { type: "number", minimum: 0 },
+      minItems: 1,
+    },
+  },
+};
+
+/**
+ * JSON Schema of declarative process-flow models (see FlowModel).
+ * Can be referenced from model files for validation in editors.
+ */
+export const FLOW_MODEL_SCHEMA: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "denosim process-flow model",
+  type: "object",
+  required: ["sources", "blocks"],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: "string" },
+    name: { type: "string" },
+    until: { type: "number", exclusiveMinimum: 0 },
+    seed: { type: "integer", minimum: 0 },
+    resources: {
+      type: "object",
+      additionalProperties: { $ref: "#/definitions/resource" },
+    },
+    sources: {
+      type: "object",
+      minProperties: 1,
+      additionalProperties: { $ref: "#/definitions/source" },
+    },
+    blocks: {
+      type: "object",
+      minProperties: 1,
+      additionalProperties: { $ref: "#/definitions/block" },
+    },
+  },
+  definitions: {
+    distribution: distributionSchema({ minimum: 0 }),
+    interarrival: distributionSchema({ exclusiveMinimum: 0 }),
+    resource: {
+      type: "object",
+      required: ["capacity"],
+      additionalProperties: false,
+      properties: {
+        capacity: { type: "integer", minimum: 1 },
+        prioritized: { type: "boolean" },
+      },
+    },
+    source: {
+      type: "object",
+      required: ["interarrival", "next"],
+      additionalProperties: false,
+      properties: {
+        interarrival: { $ref: "#/definitions/interarrival" },
+        maxEntities: { type: "integer", minimum: 1 },
+        start: { type: "number", minimum: 0 },
+        until: { type: "number", minimum: 0 },
+        next: { type: "string" },
+      },
+    },
+    block: {
+      oneOf: [
+        {
+          type: "object",
+          required: ["type", "resource", "next"],
+          additionalProperties: false,
+          properties: {
+            type: { const: "request" },
+            resource: { type: "string" },
+            priority: { type: "number" },
+            next: { type: "string" },
+          },
+        },
+        {
+          type: "object",
+          required: ["type", "resource", "next"],
+          additionalProperties: false,
+          properties: {
+            type: { const: "release" },
+            resource: { type: "string" },
+            next: { type: "string" },
+          },
+        },
+        {
+          type: "object",
+          required: ["type", "duration", "next"],
+          additionalProperties: false,
+          properties: {
+            type: { const: "delay" },
+            duration: { $ref: "#/definitions/distribution" },
+            next: { type: "string" },
+          },
+        },
+        {
+          type: "object",
+          required: ["type", "branches"],
+          additionalProperties: false,
+          properties: {
+            type: { const: "branch" },
+            branches: {
+              type: "array",
+              minItems: 1,
+              items: {
+                type: "object",
+                required: ["probability", "next"],
+                additionalProperties: false,
+                properties: {
+                  probability: { type: "number", minimum: 0, maximum: 1 },
+                  next: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        {
+          type: "object",
+          required: ["type"],
+          additionalProperties: false,
+          properties: { type: { const: "sink" } },
+        },
+      ],
+    },
+  },
+};
+
+/**
+ * Schema of a distribution: a number, or an object naming the distribution
+ * and its parameters, with the given bound on numbers and constant values.
+ */
+function distributionSchema(bound: JsonSchema): JsonSchema {
+  const constant = { value: { type: "number" as const, ...bound } };
+
+  return {
+    oneOf: [
+      { type: "number", ...bound },
+      ...Object.entries({ ...DISTRIBUTIONS, constant }).map((
+        [name, parameters],
+      ) => ({
+        type: "object" as const,
+        required: ["distribution", ...Object.keys(parameters)],
+        additionalProperties: false,
+        properties: { distribution: { const: name }, ...parameters },
+      })),
+    ],
+  };
+}
+
+/**
+ * Error thrown when a declarative model is invalid.
+ * Lists every problem found, each one prefixed with its location
+ * in the model (as a JSON pointer).
+ */
+export class FlowModelError extends Error {
+  constructor(
+    /** Problems found in the model */
+    public errors: string[],
+  ) {
+    super(`Invalid flow model:\n${errors.map((e) => `- ${e}`).join("\n")}`);
+    this.name = "FlowModelError";
+  }
+}
+
+/**
+ * Parses a declarative model from JSON or YAML text, and validates it
+ * (see validateFlowModel()).
+ */
+export function parseFlowModel(
+  text: string,
+  format: "json" | "yaml" = "yaml",
+): FlowModel {
+  let value: unknown;
+
+  try {
+    value = (format === "json") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new FlowModelError([
+      `/: not valid ${format.toUpperCase()} (${(error as Error).message})`,
+    ]);
+  }
+
+  return validateFlowModel(value);
+}
+
+/**
+ * Reads a declarative model from a JSON or YAML file
+ * (by extension: .json, or anything else as YAML).
+ * Requires read access to the file.
+ */
+export async function loadFlowModel(path: string): Promise<FlowModel> {
+  const text = await Deno.readTextFile(path);
+
+  return parseFlowModel(text, path.endsWith(".json") ? "json" : "yaml");
+}
+
+/**
+ * Validates a declarative model:
+ * - Against its schema (see FLOW_MODEL_SCHEMA)
+ * - Its references to blocks and resources
+ * - The priorities of its requests, only for prioritized resources
+ * - The order of distribution parameters (uniform: min ≤ max,
+ *   triangular: min ≤ mode ≤ max)
+ * - The interarrival times of its sources, which can't all be 0
+ * - The probabilities of its branches, which must add up to 1
+ * - Its cycles of blocks, which must contain a delay block
+ *   (or entities would run through them forever, at the same time)
+ * - The resources held along the paths of its entities, which must be
+ *   released only when held, within their capacity, before reaching a sink
+ * Throws a FlowModelError listing every problem found.
+ */
+export function validateFlowModel(value: unknown): FlowModel {
+  const errors = validateSchema(value, FLOW_MODEL_SCHEMA, "");
+
+  if (errors.length > 0) {
+    throw new FlowModelError(errors);
+  }
+
+  const model = value as FlowModel;
+  const resources = model.resources ?? {};
+
+  const checkNext = (path: string, next: string) => {
+    if (!(next in model.blocks)) {
+      errors.push(`${path}/next: unknown block "${next}"`);
+    }
+  };
+
+  for (const [name, definition] of Object.entries(model.sources)) {
+    checkNext(`/sources/${name}`, definition.next);
+    errors.push(
+      ...checkDistribution(
+        `/sources/${name}/interarrival`,
+        definition.interarrival,
+        true,
+      ),
+    );
+  }
+
+  for (const [name, block] of Object.entries(model.blocks)) {
+    const path = `/blocks/${name}`;
+
+    if (
+      (block.type === "request" || block.type === "release") &&
+      !(block.resource in resources)
+    ) {
+      errors.push(`${path}/resource: unknown resource "${block.resource}"`);
+    }
+
+    if (
+      block.type === "request" && block.priority !== undefined &&
+      block.resource in resources && !resources[block.resource].prioritized
+    ) {
+      errors.push(
+        `${path}/priority: resource "${block.resource}" is not prioritized`,
+      );
+    }
+
+    if (block.type === "branch") {
+      block.branches.forEach(({ next }, i) =>
+        checkNext(`${path}/branches/${i}`, next)
+      );
+
+      const total = block.branches.reduce((sum, b) => sum + b.probability, 0);
+
+      if (Math.abs(total - 1) > 1e-9) {
+        errors.push(`${path}/branches: probabilities add up to ${total}`);
+      }
+    } else if (block.type !== "sink") {
+      checkNext(path, block.next);
+    }
+
+    if (block.type === "delay") {
+      errors.push(...checkDistribution(`${path}/duration`, block.duration));
+    }
+  }
+
+  for (const cycle of findInstantCycles(model.blocks)) {
+    errors.push(
+      `/blocks/${cycle[0]}: cycle without a delay block ` +
+        `(${cycle.join(" → ")})`,
+    );
+  }
+
+  errors.push(...checkHeldResources(model));
+
+  if (errors.length > 0) {
+    throw new FlowModelError(errors);
+  }
+
+  return model;
+}
+
+/**
+ * Compiles a declarative model into a model (see Model) that:
+ * - Creates its resources (see createPriorityResource() for prioritized ones)
+ * - Starts its sources, each entity running through the blocks
+ *   until it reaches a sink
+ * Besides the statistics of the sources and sinks (see sink()),
+ * records for each resource:
+ * - The waiting times of its requests (tally monitor "<name>.wait")
+ * - Its number of users (level monitor "<name>.inUse")
+ * Each distribution draws from its own random stream, named after
+ * its source or block.
+ */
+export function compileFlowModel(definition: FlowModel): Model {
+  const model = validateFlowModel(definition);
+
+  return (sim: Simulation) => {
+    const resources: Record<string, Resource> = {};
+
+    for (const [name, definition] of Object.entries(model.resources ?? {})) {
+      resources[name] = definition.prioritized
+        ? createPriorityResource(sim, definition.capacity, name)
+        : createResource(sim, definition.capacity, name);
+      getLevelMonitor(sim, `${name}.inUse`);
+    }
+
+    const flow = (first: string): Process<Entity> =>
+      function* (sim, event) {
+        const entity = event.item!;
+        let name = first;
+
+        while (true) {
+          const block = model.blocks[name];
+
+          switch (block.type) {
+            case "request": {
+              const resource = resources[block.resource];
+              const requestedAt = sim.currentTime;
+
+              yield* acquire(sim, event, resource, entity, block.priority);
+
+              recordTally(
+                getTally(sim, `${block.resource}.wait`),
+                sim.currentTime - requestedAt,
+              );
+              recordLevel(
+                sim,
+                getLevelMonitor(sim, `${block.resource}.inUse`),
+                resource.users.length,
+              );
+              name = block.next;
+              break;
+            }
+
+            case "release": {
+              const resource = resources[block.resource];
+
+              release(sim, event, resource);
+
+              recordLevel(
+                sim,
+                getLevelMonitor(sim, `${block.resource}.inUse`),
+                resource.users.length,
+              );
+              name = block.next;
+              break;
+            }
+
+            case "delay":
+              yield* timeout(sim, draw(sim, block.duration, name));
+              name = block.next;
+              break;
+
+            case "branch":
+              name = discrete(
+                getStream(sim, name),
+                block.branches.map(({ next }) => next),
+                block.branches.map(({ probability }) => probability),
+              );
+              break;
+
+            case "sink":
+              sink(sim, entity, name);
+              return;
+          }
+        }
+      };
+
+    for (const [name, definition] of Object.entries(model.sources)) {
+      source(sim, {
+        name,
+        interarrival: (sim) =>
+          draw(sim, definition.interarrival, `${name}.interarrival`),
+        maxEntities: definition.maxEntities,
+        start: definition.start,
+        until: definition.until,
+      }, flow(definition.next));
+    }
+  };
+}
+
+/**
+ * Draws a duration of a declarative model from the named random stream.
+ */
+function draw(
+  sim: Simulation,
+  definition: DistributionDefinition,
+  stream: string,
+): number {
+  if (typeof definition === "number") {
+    return definition;
+  }
+
+  const random = getStream(sim, stream);
+
+  switch (definition.distribution) {
+    case "constant":
+      return definition.value;
+    case "uniform":
+      return uniform(random, definition.min, definition.max);
+    case "exponential":
+      return exponential(random, definition.mean);
+    case "normal":
+      // Durations can't be negative
+      return Math.max(0, normal(random, definition.mean, definition.stddev));
+    case "lognormal":
+      return lognormal(random, definition.mu, definition.sigma);
+    case "triangular":
+      return triangular(
+        random,
+        definition.min,
+        definition.mode,
+        definition.max,
+      );
+    case "weibull":
+      return weibull(random, definition.scale, definition.shape);
+    case "empirical":
+      return empirical(random, definition.samples);
+  }
+}
+
+/**
+ * Checks what the schema of a distribution can't express:
+ * - The order of its parameters
+ * - For interarrival times (`positive`), that its draws aren't all 0,
+ *   or its source would create entities forever at the same time
+ */
+function checkDistribution(
+  path: string,
+  definition: DistributionDefinition,
+  positive = false,
+): string[] {
+  if (typeof definition === "number") {
+    return [];
+  }
+
+  const errors: string[] = [];
+
+  switch (definition.distribution) {
+    case "uniform":
+      if (definition.min > definition.max) {
+        errors.push(`${path}: min must be at most max`);
+      }
+      if (positive && definition.max <= 0) {
+        errors.push(`${path}/max: must be greater than 0`);
+      }
+      break;
+    case "triangular":
+      if (definition.min > definition.mode) {
+        errors.push(`${path}: min must be at most mode`);
+      }
+      if (definition.mode > definition.max) {
+        errors.push(`${path}: mode must be at most max`);
+      }
+      if (positive && definition.max <= 0) {
+        errors.push(`${path}/max: must be greater than 0`);
+      }
+      break;
+    case "normal":
+      // Negative draws are cut to 0
+      if (positive && definition.mean <= 0) {
+        errors.push(`${path}/mean: must be greater than 0`);
+      }
+      break;
+    case "empirical":
+      if (positive && definition.samples.every((sample) => sample <= 0)) {
+        errors.push(`${path}/samples: must not all be 0`);
+      }
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Finds the cycles of blocks without a delay block, through which
+ * entities would run forever without the simulation time advancing.
+ * Returns each cycle as the names of its blocks, the first one repeated
+ * at the end.
+ */
+function findInstantCycles(
+  blocks: Record<string, FlowBlockDefinition>,
+): string[][] {
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (name: string) => {
+    if (path.includes(name)) {
+      cycles.push([...path.slice(path.indexOf(name)), name]);
+      return;
+    }
+
+    if (!(name in blocks) || visited.has(name)) {
+      return;
+    }
+
+    const block = blocks[name];
+    const next = (block.type === "branch")
+      ? block.branches.map(({ next }) => next)
+      // Delays break cycles, sinks end them
+      : (block.type === "delay" || block.type === "sink")
+      ? []
+      : [block.next];
+
+    visited.add(name);
+    path.push(name);
+    new Set(next).forEach(visit);
+    path.pop();
+  };
+
+  Object.keys(blocks).forEach(visit);
+
+  return cycles;
+}
+
+/**
+ * Follows the paths of the entities from the sources through the blocks,
+ * tracking the resources they hold, to find:
+ * - Releases of resources they don't hold
+ * - Requests of resources they already hold to capacity (never granted)
+ * - Sinks they reach while holding resources (never released)
+ * Unknown blocks and resources are skipped (see validateFlowModel()).
+ */
+function checkHeldResources(model: FlowModel): string[] {
+  const resources = model.resources ?? {};
+  const errors = new Set<string>();
+  const visited = new Set<string>();
+  const pending = Object.values(model.sources).map(({ next }) => ({
+    name: next,
+    held: [] as string[],
+  }));
+
+  while (pending.length > 0) {
+    const { name, held } = pending.pop()!;
+    const key = JSON.stringify([name, held]);
+
+    if (!(name in model.blocks) || visited.has(key)) {
+      continue;
+    }
+
+    visited.add(key);
+
+    const block = model.blocks[name];
+    const path = `/blocks/${name}`;
+
+    switch (block.type) {
+      case "request": {
+        const count = held.filter((r) => r === block.resource).length;
+        const capacity = resources[block.resource]?.capacity ?? Infinity;
+
+        if (count >= capacity) {
+          errors.add(
+            `${path}: requests "${block.resource}" ` +
+              `while holding all its capacity (${capacity})`,
+          );
+        } else {
+          pending.push({
+            name: block.next,
+            held: (block.resource in resources)
+              ? [...held, block.resource].sort()
+              : held,
+          });
+        }
+        break;
+      }
+
+      case "release": {
+        const i = held.indexOf(block.resource);
+
+        if (i === -1 && block.resource in resources) {
+          errors.add(
+            `${path}: releases "${block.resource}" without holding it`,
+          );
+        } else {
+          pending.push({
+            name: block.next,
+            held: held.filter((_, j) => j !== i),
+          });
+        }
+        break;
+      }
+
+      case "delay":
+        pending.push({ name: block.next, held });
+        break;
+
+      case "branch":
+        for (const { next } of block.branches) {
+          pending.push({ name: next, held });
+        }
+        break;
+
+      case "sink":
+        if (held.length > 0) {
+          errors.add(
+            `${path}: reached while holding ` +
+              held.map((r) => `"${r}"`).join(", "),
+          );
+        }
+        break;
+    }
+  }
+
+  return [...errors];
+}
+
+/**
+ * Validates a value against a JSON schema (see JsonSchema for the supported
+ * keywords), resolving references against FLOW_MODEL_SCHEMA.
+ * Returns the problems found, prefixed with their location.
+ */
+function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+): string[] {
+  if (schema.$ref) {
+    const name = schema.$ref.replace("#/definitions/", "");
+    return validateSchema(value, FLOW_MODEL_SCHEMA.definitions![name], path);
+  }
+
+  const at = path || "/";
+
+  if (schema.oneOf) {
+    // Report the problems of the form the value is meant to be,
+    // recognized by its type and constant properties (e.g. "type": "delay")
+    const forms = schema.oneOf.filter((form) => matchesForm(value, form));
+
+    if (forms.length === 0) {
+      return [`${at}: ${describeForms(schema.oneOf)}`];
+    }
+
+    const problems = forms.map((form) => validateSchema(value, form, path));
+
+    return problems.find((p) => p.length === 0) ?? problems[0];
+  }
+
+  if ("const" in schema && value !== schema.const) {
+    return [`${at}: must be ${JSON.stringify(schema.const)}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at}: must be one of ${JSON.stringify(schema.enum)}`];
+  }
+
+  if (schema.type && !hasType(value, schema.type)) {
+    return [`${at}: must be ${article(schema.type)} ${schema.type}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at}: must be at least ${schema.minimum}`);
+    }
+
+    if (
+      schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum
+    ) {
+      errors.push(`${at}: must be greater than ${schema.exclusiveMinimum}`);
+    }
+
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: must have at least ${schema.minItems} item(s)`);
+    }
+
+    if (schema.items) {
+      value.forEach((item, i) =>
+        errors.push(...validateSchema(item, schema.items!, `${path}/${i}`))
+      );
+    }
+  } else if (typeof value === "object" && value !== null) {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record);
+
+    if (
+      schema.minProperties !== undefined && keys.length < schema.minProperties
+    ) {
+      errors.push(
+        `${at}: must have at least ${schema.minProperties} propert(ies)`,
+      );
+    }
+
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push(`${at}: missing property "${key}"`);
+      }
+    }
+
+    for (const key of keys) {
+      const property = schema.properties?.[key] ??
+        schema.additionalProperties;
+
+      if (property === false) {
+        errors.push(`${at}: unknown property "${key}"`);
+      } else if (property && property !== true) {
+        errors.push(...validateSchema(record[key], property, `${path}/${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks whether a value has the type and constant properties of a form
+ * of a oneOf schema.
+ */
+function matchesForm(value: unknown, form: JsonSchema): boolean {
+  if (form.type && !hasType(value, form.type)) {
+    return false;
+  }
+
+  return Object.entries(form.properties ?? {}).every(([key, property]) =>
+    !("const" in property) ||
+    (value as Record<string, unknown>)[key] === property.const
+  );
+}
+
+/**
+ * Describes the forms of a oneOf schema (e.g. for an unknown block type).
+ */
+function describeForms(forms: JsonSchema[]): string {
+  const descriptions = forms.map((form) => {
+    const constant = Object.entries(form.properties ?? {}).find((
+      [, property],
+    ) => "const" in property);
+
+    return constant
+      ? `${form.type} with "${constant[0]}": ${
+        JSON.stringify(constant[1].const)
+      }`
+      : `${article(form.type!)} ${form.type}`;
+  });
+
+  return `must be one of: ${descriptions.join(", ")}`;
+}
+
+/**
+ * Checks whether a value has the given JSON type.
+ */
+function hasType(value: unknown, type: JsonSchema["type"]): boolean {
+  switch (type) {
+    case "object":
+      return typeof value === "object" && value !== null &&
+        !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    default:
+      return true;
+  }
+}
+
+/**
+ * Returns the indefinite article of a type name.
+ */
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? "an" : "a";
+}
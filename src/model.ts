@@ -25,12 +25,216 @@ export interface Simulation {
    * Generators are associated with their original event ID.
    * Preserves execution context between partial processing runs.
    */
-  state: Record<string, ProcessState<unknown>>;
+  state: Record<string, ProcessState<unknown> | AsyncProcessState<unknown>>;
+
+  /**
+   * Future event list.
+   * Holds scheduled events that have not been processed yet, ordered by
+   * scheduledAt, then priority, then insertion sequence.
+   * Finished events never enter it.
+   */
+  timeline: Heap<Event<unknown>>;
+
+  /**
+   * Insertion sequence counter.
+   * Incremented every time an event is scheduled, used as a stable tie-breaker
+   * between events scheduled at the same time.
+   */
+  sequence: number;
+
+  /**
+   * Position of each event in `events`, by event ID.
+   * Lets the scheduler update an event record without scanning the history.
+   */
+  index: Map<string, number>;
+
+  /**
+   * Seed of the simulation's random number streams.
+   * Two simulations initialized with the same seed draw the same numbers,
+   * and generate the same event IDs.
+   */
+  seed: number;
+
+  /**
+   * Default random number stream of the simulation.
+   */
+  random: RandomStream;
+
+  /**
+   * Independent named random number substreams, created on first use.
+   * Each substream is derived from the simulation seed and its name,
+   * so draws on one stream never shift the numbers of another.
+   */
+  streams: Record<string, RandomStream>;
+
+  /**
+   * What to do when the process of an event throws an error.
+   */
+  errorPolicy: ErrorPolicy;
+
+  /**
+   * Named tally monitors, created on first use (see getTally()).
+   */
+  tallies: Record<string, Tally>;
+
+  /**
+   * Named level monitors, created on first use (see getLevelMonitor()).
+   */
+  levels: Record<string, LevelMonitor>;
+
+  /**
+   * Named sinks of entities, created on first use (see getSink()).
+   */
+  sinks: Record<string, Sink>;
+
+  /**
+   * Resources created in the simulation (see createResource()),
+   * whose statistics are reset with the monitors (see resetMonitors()).
+   */
+  resources: Resource[];
+
+  /**
+   * Processes waiting for the completion of an event, by event ID
+   * (see allOf() and anyOf()).
+   * They are resumed as soon as the event's process completes.
+   */
+  waiters: Record<string, string[]>;
+
+  /**
+   * Named processes, referenced by name in snapshots (see snapshot()).
+   */
+  registry: ProcessRegistry;
+
+  /**
+   * Number of events processed since the start of the simulation.
+   */
+  steps: number;
+
+  /**
+   * Decision log: operations applied from outside the processes
+   * (scheduling, cancellation, interruption), in order.
+   * Replaying it from the seed reconstructs the simulation (see restore()).
+   */
+  log: LogEntry[];
+
+  /**
+   * Whether an event or an operation is being processed.
+   * Operations applied meanwhile are consequences of it, and aren't logged.
+   */
+  processing: boolean;
+
+  /**
+   * Optional tracing hook receiving a record of every step of the processes
+   * (see runSimulation() and trace.ts).
+   */
+  trace?: TraceOptions;
+}
+
+/**
+ * Options used to initialize a new simulation.
+ */
+export interface SimulationOptions<T = unknown> {
+  /**
+   * Seed of the random number streams.
+   * Defaults to a random seed (see Simulation.seed to reproduce the run).
+   */
+  seed?: number;
+
+  /**
+   * What to do when the process of an event throws an error.
+   * Defaults to ErrorPolicy.Propagate.
+   */
+  errorPolicy?: ErrorPolicy;
+
+  /**
+   * Named processes, needed to snapshot the simulation.
+   * Defaults to an empty registry.
+   */
+  registry?: ProcessRegistry<T>;
+}
+
+/**
+ * Named processes, so that events can reference their process by name.
+ */
+export type ProcessRegistry<T = unknown> = Record<
+  string,
+  Process<T> | AsyncProcess<T>
+>;
+
+/**
+ * Operation applied to a simulation from outside its processes.
+ */
+export interface LogEntry {
+  /** Kind of operation */
+  operation: "schedule" | "cancel" | "interrupt";
+
+  /** Number of events processed before the operation */
+  step: number;
+
+  /** Simulation time of the operation */
+  time: number;
+
+  /** Scheduled event (schedule operations) */
+  event?: Event<unknown>;
+
+  /** ID of the cancelled or interrupted event */
+  id?: string;
+
+  /** Cause of the interruption */
+  cause?: unknown;
+
+  /** State of the random number streams right after the operation */
+  random: RandomStream;
+  streams: Record<string, RandomStream>;
+}
+
+/**
+ * Serializable form of an event: its process is referenced by name
+ * in the simulation's registry.
+ */
+export type SerializedEvent = Omit<Event<unknown>, "callback"> & {
+  process?: string;
+};
+
+/**
+ * Serializable checkpoint of a simulation (see snapshot() and restore()).
+ * Holds what is needed to replay the simulation up to its current state.
+ */
+export interface Snapshot {
+  /** Format version of the snapshot */
+  version: number;
+
+  seed: number;
+  errorPolicy: ErrorPolicy;
+  currentTime: number;
+
+  /** Number of events processed at the time of the snapshot */
+  steps: number;
+
+  /** Number of events in the history, checked after replay */
+  events: number;
+
+  /** Decision log, with serialized events */
+  log: (Omit<LogEntry, "event"> & { event?: SerializedEvent })[];
+}
+
+/**
+ * Seedable pseudo-random number generator state (xoshiro128**).
+ * Holds plain numbers only, so it can be copied and serialized.
+ */
+export interface RandomStream {
+  /** Seed the stream was derived from */
+  seed: number;
+
+  /** Internal generator state: four unsigned 32-bit words */
+  state: [number, number, number, number];
 }
 
 /**
  * Lifecycle states for events within the simulation.
- * Follows a strict progression: Fired → Scheduled → Finished
+ * Follows a strict progression: Fired → Scheduled → Finished,
+ * unless the event is cancelled on the way (→ Cancelled),
+ * or its process throws an error (→ Failed).
  */
 export enum EventState {
   /**
@@ -50,6 +254,53 @@ export enum EventState {
    * Events in this state remain in the system for historical tracking.
    */
   Finished = "Finished",
+
+  /**
+   * Final state indicating the event has been cancelled (see cancelEvent()).
+   * Its process, if any, will never be resumed.
+   */
+  Cancelled = "Cancelled",
+
+  /**
+   * Final state indicating the process of the event threw an error.
+   * The error is recorded on the event.
+   */
+  Failed = "Failed",
+}
+
+/**
+ * What to do when the process of an event throws an error.
+ * In every case, the event is marked as Failed with its error first.
+ */
+export enum ErrorPolicy {
+  /**
+   * Stop the run by throwing a SimulationError out of runSimulation().
+   */
+  Abort = "Abort",
+
+  /**
+   * Keep running: the error is rethrown into the processes waiting for
+   * the failed event (see join()), if any.
+   */
+  Continue = "Continue",
+
+  /**
+   * Rethrow the error into the processes waiting for the failed event,
+   * and keep running. Abort the run if no process is waiting for it.
+   */
+  Propagate = "Propagate",
+}
+
+/**
+ * Common priority levels for events scheduled at the same time.
+ * Lower values are processed first; any number can be used as a priority.
+ */
+export enum EventPriority {
+  /** Processed before normal events scheduled at the same time */
+  Urgent = 0,
+
+  /** Default priority of events */
+  Normal = 1,
 }
 
 /**
@@ -63,6 +314,23 @@ export type ProcessState<T = void> = Generator<
   void
 >;
 
+/**
+ * Holds the state of an ongoing asynchronous process,
+ * which can await external I/O between its steps (see runSimulationAsync()).
+ */
+export type AsyncProcessState<T = void> = AsyncGenerator<
+  Event<T> | undefined,
+  T | undefined | void,
+  void
+>;
+
+/**
+ * Values of the triggered events of a condition (see allOf() and anyOf()),
+ * by event ID. The value of an event is the value returned by its process,
+ * or its item if the process returned nothing.
+ */
+export type ConditionValue = Record<string, unknown>;
+
 /**
  * Represents a step of event handling.
  * It holds:
@@ -74,8 +342,8 @@ export interface ProcessStep<T = void> {
   /** The updated event */
   updated: Event<T>;
 
-  /** The current process state */
-  state: ProcessState<T>;
+  /** The current process state, unset once the process has completed */
+  state?: ProcessState<T> | AsyncProcessState<T>;
 
   /** Optional next event to be scheduled */
   next?: Event<T>;
@@ -91,6 +359,16 @@ export type Process<T = void> = (
   event: Event<T>, // The event instance being processed
 ) => ProcessState<T>; // Generator that can yield events or nothing
 
+/**
+ * Type definition for asynchronous event process logic.
+ * Async generator function, run by runSimulationAsync() only.
+ * Blocking operations (timeout(), get(), etc) are used the same way, with yield*.
+ */
+export type AsyncProcess<T = void> = (
+  sim: Simulation,
+  event: Event<T>,
+) => AsyncProcessState<T>;
+
 /**
  * Represents a discrete event in the simulation system.
  * Events are immutable - state changes create new instances.
@@ -115,38 +393,499 @@ export interface Event<T = void> {
   scheduledAt: number;
 
   /**
-   * When the event completed processing.
-   * Only populated when status = EventState.Finished
+   * When the event completed processing, failed, or was cancelled.
+   * Only populated when status = EventState.Finished, EventState.Failed
+   * or EventState.Cancelled, and not while its process is paused
    */
   finishedAt?: number;
 
+  /**
+   * Priority of the event among events scheduled at the same time.
+   * Lower values are processed first (see EventPriority).
+   * Defaults to EventPriority.Normal.
+   */
+  priority?: number;
+
+  /**
+   * Insertion sequence number assigned by scheduleEvent().
+   * Among events with the same scheduledAt and priority,
+   * the lowest sequence (earliest scheduled) goes first.
+   */
+  sequence?: number;
+
   /**
    * Optional item that can be passed through the event.
    */
   item?: T;
 
+  /**
+   * Value returned by the process of the event, once it has completed.
+   */
+  value?: T;
+
+  /**
+   * Error thrown by the process of the event.
+   * Only populated when status = EventState.Failed
+   */
+  error?: unknown;
+
+  /**
+   * Optional interrupt-style signal for the process of the event.
+   * When set, the error is thrown into the paused process instead of resuming it
+   * normally, at the point where it yielded; it is cleared once delivered.
+   */
+  interrupt?: Error;
+
   /**
    * The process logic to execute when this event is processed.
-   * Generator function that can yield to pause/resume execution.
+   * Generator function that can yield to pause/resume execution
+   * (or async generator function, see runSimulationAsync()).
    */
-  callback: Process<T>;
+  callback: Process<T> | AsyncProcess<T>;
 }
 
 /**
  * Statistics about a simulation run.
- * Currently tracks only duration, but could be extended with:
- * - Events processed count
- * - Average event latency
- * - Other performance metrics
+ * Tracks the run's performance and automatic counters,
+ * along with summaries of the simulation's monitors (see monitors.ts).
  */
 export interface SimulationStats {
   /** Real-world time (in milliseconds) the simulation took to complete */
   duration: number;
+
+  /** Number of events processed during the run */
+  eventsProcessed: number;
+
+  /**
+   * Mean time between firedAt and finishedAt of the events
+   * that finished during the run (0 if none did).
+   */
+  meanWait: number;
+
+  /** Summaries of the simulation's tally monitors, by name */
+  tallies: Record<string, TallySummary>;
+
+  /** Summaries of the simulation's level monitors, by name */
+  levels: Record<string, LevelSummary>;
+
+  /** Summaries of the simulation's sinks of entities, by name */
+  sinks: Record<string, SinkSummary>;
+}
+
+/**
+ * Monitor of observations (waiting times, sizes, etc).
+ * Keeps running moments (Welford's algorithm) and the observations themselves,
+ * for percentiles.
+ */
+export interface Tally {
+  /** Number of observations */
+  count: number;
+
+  /** Running mean of the observations */
+  mean: number;
+
+  /** Running sum of squared differences from the mean */
+  m2: number;
+
+  /** Smallest observation (Infinity if none) */
+  min: number;
+
+  /** Largest observation (-Infinity if none) */
+  max: number;
+
+  /** Every observation, in recording order */
+  samples: number[];
+}
+
+/**
+ * Summary statistics of a tally monitor.
+ * Statistics of an empty monitor are NaN.
+ */
+export interface TallySummary {
+  count: number;
+  mean: number;
+  /** Sample variance (NaN with less than two observations) */
+  variance: number;
+  min: number;
+  max: number;
+  /** Median */
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Monitor of a level varying over time (queue length, utilization, etc).
+ * Keeps the integrals of the level over time, for time-weighted statistics.
+ */
+export interface LevelMonitor {
+  /** Current level */
+  level: number;
+
+  /** Simulation time at which the monitor was created */
+  createdAt: number;
+
+  /** Simulation time of the last change of level */
+  updatedAt: number;
+
+  /** Integral of the level over time, up to updatedAt */
+  area: number;
+
+  /** Integral of the squared level over time, up to updatedAt */
+  squaredArea: number;
+
+  /** Lowest level reached */
+  min: number;
+
+  /** Highest level reached */
+  max: number;
+}
+
+/**
+ * Summary statistics of a level monitor, weighted by time.
+ * Mean and variance are NaN if no time has elapsed.
+ */
+export interface LevelSummary {
+  /** Current level */
+  level: number;
+  /** Time-weighted mean level */
+  mean: number;
+  /** Time-weighted variance of the level */
+  variance: number;
+  min: number;
+  max: number;
+  /** Time elapsed since the creation of the monitor */
+  duration: number;
+}
+
+/**
+ * Confidence interval of the mean of observations.
+ * Bounds are NaN with less than two observations.
+ */
+export interface ConfidenceInterval {
+  /** Sample mean */
+  mean: number;
+  /** Half-width of the interval around the mean */
+  halfWidth: number;
+  lower: number;
+  upper: number;
+  /** Confidence level of the interval (e.g. 0.95) */
+  confidence: number;
+}
+
+/**
+ * Builds a model in a new simulation, scheduling its initial events.
+ * Must be deterministic for a given simulation seed and parameters,
+ * so that replications are reproducible.
+ */
+export type Model<P = void> = (sim: Simulation, params: P) => void;
+
+/**
+ * Extracts the named metrics of a replication after its run.
+ */
+export type Metrics = (
+  sim: Simulation,
+  stats: SimulationStats,
+) => Record<string, number>;
+
+/**
+ * Options of an experiment.
+ */
+export interface ExperimentOptions {
+  /** Number of independent replications of the model */
+  replications: number;
+
+  /** Simulation time after which monitors are reset (defaults to 0) */
+  warmup?: number;
+
+  /** Simulation time measured after the warm-up, in each replication */
+  length: number;
+
+  /** Seed from which the replication seeds are derived (defaults to a random seed) */
+  seed?: number;
+
+  /** Confidence level of the intervals (defaults to 0.95) */
+  confidence?: number;
+
+  /** Metrics of each replication (defaults to the run statistics and monitor means) */
+  metrics?: Metrics;
+}
+
+/**
+ * Metrics of a single replication.
+ */
+export interface ReplicationResult {
+  /** Seed of the replication's simulation */
+  seed: number;
+
+  /** Metrics of the replication, by name */
+  metrics: Record<string, number>;
+}
+
+/**
+ * Results of an experiment on one scenario.
+ */
+export interface ExperimentResult<P = void> {
+  /** Parameters of the scenario */
+  params: P;
+
+  /** Results of every replication, in order */
+  replications: ReplicationResult[];
+
+  /** Confidence interval of the mean of each metric across replications */
+  metrics: Record<string, ConfidenceInterval>;
+}
+
+/**
+ * Options controlling how far runSimulation() goes.
+ */
+export interface RunSimulationOptions {
+  /**
+   * Virtual time at which the run stops.
+   * Events scheduled strictly before this time are processed;
+   * the simulation is then left at this time, and can be resumed.
+   * Defaults to running until no more events remain.
+   */
+  until?: number;
+
+  /**
+   * Tracing hook used during the run, instead of the simulation's own.
+   */
+  trace?: TraceOptions;
+}
+
+/**
+ * State of an ongoing run of a simulation (see beginRun()).
+ */
+export interface RunState {
+  /** Real-world time at which the run started (see performance.now()) */
+  start: number;
+
+  /** Virtual time at which the run stops */
+  until: number;
+
+  /** Tracing hook of the simulation before the run, restored after it */
+  trace?: TraceOptions;
+
+  /** Number of events processed during the run */
+  eventsProcessed: number;
+
+  /** Number of events that finished during the run */
+  finished: number;
+
+  /** Sum of the times between firedAt and finishedAt of the finished events */
+  totalWait: number;
+}
+
+/**
+ * Options used to run a simulation in real time (see runRealtime()).
+ */
+export interface RealtimeOptions extends RunSimulationOptions {
+  /**
+   * Real-world milliseconds per unit of simulation time.
+   * Defaults to 1000 (a unit of simulation time lasts a second).
+   */
+  factor?: number;
+
+  /**
+   * Whether to abort the run when it falls behind real time
+   * by more than the tolerance. Defaults to false.
+   */
+  strict?: boolean;
+
+  /**
+   * Delay (in milliseconds) behind real time tolerated before
+   * reporting or aborting. Defaults to 20.
+   */
+  tolerance?: number;
+
+  /**
+   * Maximum delay (in milliseconds) between checks for events
+   * injected by external code while waiting. Defaults to 10.
+   */
+  interval?: number;
+
+  /**
+   * Called when an event is processed later than the tolerance,
+   * with the delay in milliseconds (unless strict).
+   */
+  onLag?: (lag: number, sim: Simulation) => void;
+}
+
+/**
+ * Statistics about a real-time simulation run.
+ */
+export interface RealtimeStats extends SimulationStats {
+  /** Largest delay (in milliseconds) behind real time of an event */
+  maxLag: number;
+}
+
+/**
+ * Kinds of trace records.
+ */
+export enum TraceKind {
+  /** An event has been inserted in the timeline */
+  Schedule = "schedule",
+
+  /** The process of an event has been started */
+  Start = "start",
+
+  /** A process has yielded control (to an event, or to wait) */
+  Yield = "yield",
+
+  /** A paused process has been rescheduled (see resumeProcess()) */
+  Resume = "resume",
+
+  /** A process has completed, failed, or been cancelled */
+  Finish = "finish",
+
+  /** An item has entered a store */
+  Put = "put",
+
+  /** An item has been handed out of a store */
+  Get = "get",
+
+  /** A process is waiting for a slot of a resource */
+  Request = "request",
+
+  /** A slot of a resource has been granted to a process */
+  Acquire = "acquire",
+
+  /** A process has given up a slot of a resource, or its request */
+  Release = "release",
+}
+
+/**
+ * Structured record of a step of a process.
+ */
+export interface TraceRecord {
+  /** Virtual time of the step */
+  time: number;
+
+  kind: TraceKind;
+
+  /** ID of the event of the process */
+  id: string;
+
+  /** Name of the process (registry name, or function name) */
+  process: string;
+
+  /** Time the event is scheduled at (schedule, resume and yield records) */
+  scheduledAt?: number;
+
+  /** Final status of the event (finish records) */
+  status?: EventState;
+
+  /** ID of the event yielded by the process (yield records) */
+  next?: string;
+
+  /** Item put or gotten (put and get records) */
+  item?: unknown;
+
+  /** Name of the store or resource (store and resource records) */
+  resource?: string;
+
+  /**
+   * Length of the queue after the step (store and resource records):
+   * items in a store, or pending requests of a resource.
+   */
+  queue?: number;
+}
+
+/**
+ * Destination of trace records (memory, JSON Lines, CSV, etc).
+ */
+export interface TraceSink {
+  /** Receives a record */
+  write: (record: TraceRecord) => void;
+}
+
+/**
+ * Selection of trace records.
+ * A record is kept if it matches every given criterion.
+ */
+export interface TraceFilter {
+  /** Kept event IDs */
+  events?: string[];
+
+  /** Kept process names */
+  processes?: string[];
+
+  /** Kept kinds of records */
+  kinds?: TraceKind[];
+}
+
+/**
+ * Tracing hook: where trace records go, and which ones.
+ */
+export interface TraceOptions {
+  sink: TraceSink;
+  filter?: TraceFilter;
+}
+
+/**
+ * Event of the Chrome Trace Event format
+ * (see https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU).
+ */
+export interface ChromeTraceEvent {
+  /** Name of the event, or of the metadata ("process_name", "thread_name") */
+  name: string;
+
+  /** Phase: "X" (complete), "i" (instant), "C" (counter), "M" (metadata) */
+  ph: "X" | "i" | "C" | "M";
+
+  /** Track group: processes, or resources */
+  pid: number;
+
+  /** Track within the group */
+  tid: number;
+
+  /** Timestamp, in microseconds */
+  ts: number;
+
+  /** Duration of complete events, in microseconds */
+  dur?: number;
+
+  /** Scope of instant events ("t": thread) */
+  s?: "t";
+
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Trace in the Chrome Trace Event format, as opened by trace viewers
+ * (chrome://tracing, Perfetto).
+ */
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: "ms" | "ns";
+}
+
+/**
+ * Options of the Chrome trace export.
+ */
+export interface ChromeTraceOptions {
+  /**
+   * Microseconds per unit of simulation time.
+   * Defaults to 1000 (a unit of simulation time is shown as a millisecond).
+   */
+  timeScale?: number;
+
+  /**
+   * Whether to show the events of the idle() process (e.g. timeouts).
+   * Defaults to false.
+   */
+  idle?: boolean;
 }
 
 /**
  * Utility data structure for inter-process synchronization.
- * Put/Get operations (see resources.ts) work in a FIFO fashion.
+ * Put/Get operations (see resources.ts) work in a FIFO fashion,
+ * following the same ordering as the simulation timeline:
+ * scheduledAt, then priority, then insertion sequence.
+ * Bounded stores block put operations while full;
+ * priority stores hand out the lowest-keyed item first.
  */
 export interface Store<T> {
   /**
@@ -156,8 +895,423 @@ export interface Store<T> {
   getRequests: Event<T>[];
 
   /**
-   * Array of pending put requests in the store.
+   * Array of pending put requests in the store,
+   * holding the items available in the store.
    * Earliest requests will be handled first.
    */
   putRequests: Event<T>[];
+
+  /**
+   * Array of put requests waiting for room in a full store.
+   * Earliest requests will be handled first.
+   */
+  waitingPuts: Event<T>[];
+
+  /** Maximum number of items in the store */
+  capacity: number;
+
+  /**
+   * Predicates of the pending filtered get requests, by event ID.
+   * A filtered get request only accepts the items matching its predicate.
+   */
+  filters: Record<string, (item: T) => boolean>;
+
+  /**
+   * Optional priority key of the items.
+   * When set, items with the lowest key are handed out first.
+   */
+  key?: (item: T) => number;
+
+  /** Optional name of the store, identifying it in traces */
+  name?: string;
+}
+
+/**
+ * Binary min-heap keyed by a comparison function.
+ * The item that compares lowest is always at the root.
+ */
+export interface Heap<T> {
+  /** Items stored in array order, satisfying the heap property */
+  items: T[];
+
+  /**
+   * Ordering of the heap.
+   * Returns a negative number when `a` must come out before `b`.
+   */
+  compare: (a: T, b: T) => number;
+}
+
+/**
+ * Shared resource with a limited number of slots (servers, machines, staff).
+ * Request/Release operations (see resources.ts) grant slots in a FIFO fashion,
+ * following the same ordering as the simulation timeline.
+ * Priority resources grant slots by request priority first;
+ * preemptive resources also evict users with a lower priority.
+ */
+export interface Resource {
+  /** Maximum number of processes holding the resource at the same time */
+  capacity: number;
+
+  /** Events of the processes currently holding a slot */
+  users: Event<unknown>[];
+
+  /** Simulation time at which each current user was granted its slot, by event ID */
+  since: Record<string, number>;
+
+  /**
+   * Array of pending requests waiting for a slot.
+   * Earliest requests will be handled first.
+   */
+  requests: Event<unknown>[];
+
+  /** Simulation time from which the statistics are measured (creation or reset) */
+  createdAt: number;
+
+  /** Simulation time of the last change of users or requests */
+  updatedAt: number;
+
+  /** Integral of the number of users over time, up to updatedAt */
+  busyTime: number;
+
+  /** Integral of the number of pending requests over time, up to updatedAt */
+  queueTime: number;
+
+  /** Integral of the capacity over time, up to updatedAt (see setCapacity()) */
+  capacityTime: number;
+
+  /**
+   * Whether pending requests are ordered by priority first, then by request time.
+   * Defaults to false: ordered by request time first.
+   */
+  prioritized?: boolean;
+
+  /**
+   * Whether a request may evict a user with a lower priority (higher value)
+   * when no slot is free. Implies a prioritized resource.
+   */
+  preemptive?: boolean;
+
+  /** Optional name of the resource, identifying it in traces */
+  name?: string;
+}
+
+/**
+ * Resource holding a continuous quantity (fuel tank, inventory, battery charge).
+ * Put/Get amount operations (see resources.ts) block in a FIFO fashion
+ * until there is enough room or enough quantity, respectively.
+ */
+export interface Container {
+  /** Maximum level of the container */
+  capacity: number;
+
+  /** Current level of the container */
+  level: number;
+
+  /**
+   * Array of pending get requests, the requested amount being their item.
+   * Earliest requests will be handled first.
+   */
+  getRequests: Event<number>[];
+
+  /**
+   * Array of pending put requests, the amount to put being their item.
+   * Earliest requests will be handled first.
+   */
+  putRequests: Event<number>[];
+
+  /** Every change of the level, in chronological order, for plotting */
+  history: LevelRecord[];
+}
+
+/**
+ * Level of a container at a point in time.
+ */
+export interface LevelRecord {
+  /** Simulation time of the change */
+  time: number;
+
+  /** Level after the change */
+  level: number;
+}
+
+/**
+ * Broadcast synchronization primitive: a trigger wakes
+ * all the processes waiting on the signal at once (see wait() and trigger()).
+ */
+export interface Signal<T = unknown> {
+  /** Event IDs of the processes waiting for the next trigger, in order */
+  waiters: string[];
+
+  /** Values handed to the woken processes, by event ID */
+  values: Record<string, T | undefined>;
+
+  /**
+   * Whether the signal stays open once triggered (see createLatch()):
+   * processes waiting on an open signal resume immediately.
+   */
+  latching?: boolean;
+
+  /** Whether a latching signal has been triggered (and not reset since) */
+  open: boolean;
+
+  /** Value of the last trigger */
+  value?: T;
+}
+
+/**
+ * Options of a recurring process (see scheduleRecurring()).
+ * Occurrences are spaced by either a fixed interval or a random one.
+ */
+export interface RecurringOptions<T = void> {
+  /** Time of the first occurrence (defaults to the current time) */
+  start?: number;
+
+  /** Fixed time between occurrences */
+  interval?: number;
+
+  /** Draws the time until the next occurrence (e.g. exponential()) */
+  distribution?: (sim: Simulation) => number;
+
+  /** No occurrence at or after this time (defaults to Infinity) */
+  until?: number;
+
+  /** Maximum number of occurrences (defaults to Infinity) */
+  count?: number;
+
+  /** Item carried by the event of each occurrence */
+  item?: T;
+}
+
+/**
+ * Window of a calendar schedule, as offsets within its period.
+ */
+export interface ScheduleWindow {
+  /** Offset of the opening of the window */
+  from: number;
+
+  /** Offset of the closing of the window (excluded) */
+  to: number;
+
+  /** Value during the window (defaults to 1) */
+  value?: number;
+}
+
+/**
+ * Calendar schedule repeating every period (e.g. shift patterns):
+ * a value (e.g. a capacity) that changes at fixed offsets in each period.
+ */
+export interface CalendarSchedule {
+  /** Length of a cycle of the schedule */
+  period: number;
+
+  /** Non-overlapping windows within a cycle */
+  windows: ScheduleWindow[];
+
+  /** Value outside of the windows (defaults to 0) */
+  offValue?: number;
+
+  /** Simulation time at which the first cycle starts (defaults to 0) */
+  origin?: number;
+}
+
+/**
+ * Wait of an entity for a resource (see acquire()).
+ */
+export interface EntityWait {
+  /** Name of the resource, if any */
+  resource?: string;
+
+  /** Simulation time at which the resource was requested */
+  requestedAt: number;
+
+  /** Simulation time at which the resource was acquired (unset while waiting) */
+  acquiredAt?: number;
+}
+
+/**
+ * Entity flowing through a model, from a source to a sink
+ * (e.g. a customer, a part, a message).
+ * Carries the timestamps of its journey.
+ */
+export interface Entity {
+  /** Number of the entity within its source, starting at 1 */
+  id: number;
+
+  /** Name of the source that created the entity */
+  source: string;
+
+  /** Simulation time at which the entity was created */
+  createdAt: number;
+
+  /** Waits for resources, in order */
+  waits: EntityWait[];
+
+  /** Simulation time at which the entity reached a sink (unset until then) */
+  exitedAt?: number;
+}
+
+/**
+ * Options of a source of entities (see source()).
+ */
+export interface SourceOptions<T extends Entity = Entity> {
+  /** Name of the source (defaults to "source") */
+  name?: string;
+
+  /** Fixed time between arrivals, or a function drawing it (e.g. exponential()) */
+  interarrival: number | ((sim: Simulation) => number);
+
+  /** Maximum number of entities created (defaults to Infinity) */
+  maxEntities?: number;
+
+  /** Time of the first arrival (defaults to the current time) */
+  start?: number;
+
+  /** No arrival at or after this time (defaults to Infinity) */
+  until?: number;
+
+  /** Builds each entity from its base fields (defaults to the base entity) */
+  factory?: (sim: Simulation, entity: Entity) => T;
+}
+
+/**
+ * Sink of entities: counts the entities leaving the model.
+ */
+export interface Sink {
+  /** Number of entities that reached the sink */
+  exited: number;
+
+  /** Simulation time from which the throughput is measured */
+  since: number;
+}
+
+/**
+ * Summary statistics of a sink of entities.
+ * Throughput is NaN if no time has elapsed.
+ */
+export interface SinkSummary {
+  /** Number of entities that reached the sink */
+  exited: number;
+
+  /** Number of entities per unit of simulation time */
+  throughput: number;
+
+  /** Simulation time over which the throughput is measured */
+  duration: number;
+}
+
+/**
+ * Random duration of a declarative model (see compileFlowModel()):
+ * a constant number, or a distribution of the random module with its
+ * parameters.
+ */
+export type DistributionDefinition =
+  | number
+  | { distribution: "constant"; value: number }
+  | { distribution: "uniform"; min: number; max: number }
+  | { distribution: "exponential"; mean: number }
+  | { distribution: "normal"; mean: number; stddev: number }
+  | { distribution: "lognormal"; mu: number; sigma: number }
+  | { distribution: "triangular"; min: number; mode: number; max: number }
+  | { distribution: "weibull"; scale: number; shape: number }
+  | { distribution: "empirical"; samples: number[] };
+
+/**
+ * Resource of a declarative model.
+ */
+export interface FlowResourceDefinition {
+  /** Number of entities that can hold the resource at once */
+  capacity: number;
+
+  /**
+   * Whether pending requests are ordered by the priority of their request
+   * block first (see createPriorityResource()).
+   * Defaults to false: first come, first served.
+   */
+  prioritized?: boolean;
+}
+
+/**
+ * Source of entities of a declarative model (see source()).
+ */
+export interface FlowSourceDefinition {
+  /** Time between arrivals (can't always be 0) */
+  interarrival: DistributionDefinition;
+
+  /** Maximum number of entities created (defaults to Infinity) */
+  maxEntities?: number;
+
+  /** Time of the first arrival (defaults to 0) */
+  start?: number;
+
+  /** No arrival at or after this time (defaults to Infinity) */
+  until?: number;
+
+  /** Name of the first block of the entities */
+  next: string;
+}
+
+/**
+ * Block of a declarative model, run by each entity reaching it:
+ * - request: waits for a resource, then holds it
+ *   (with an optional priority, lowest value first, on prioritized resources)
+ * - release: releases a held resource
+ * - delay: waits for a random duration
+ * - branch: moves on to one of several blocks, at random
+ * - sink: leaves the model (see sink())
+ */
+export type FlowBlockDefinition =
+  | { type: "request"; resource: string; priority?: number; next: string }
+  | { type: "release"; resource: string; next: string }
+  | { type: "delay"; duration: DistributionDefinition; next: string }
+  | { type: "branch"; branches: { probability: number; next: string }[] }
+  | { type: "sink" };
+
+/**
+ * Declarative process-flow model, loaded from JSON or YAML
+ * (see parseFlowModel()).
+ * Sources, resources and blocks are named by their keys.
+ */
+export interface FlowModel {
+  /** Name of the model */
+  name?: string;
+
+  /** Default horizon of a run of the model */
+  until?: number;
+
+  /** Default seed of a run of the model */
+  seed?: number;
+
+  /** Resources, by name */
+  resources?: Record<string, FlowResourceDefinition>;
+
+  /** Sources of entities, by name */
+  sources: Record<string, FlowSourceDefinition>;
+
+  /** Blocks of the flow, by name */
+  blocks: Record<string, FlowBlockDefinition>;
+}
+
+/**
+ * Subset of JSON Schema used to validate declarative models
+ * (see FLOW_MODEL_SCHEMA).
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  oneOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
 }
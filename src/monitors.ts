@@ -0,0 +1,359 @@
+import {
+  ConfidenceInterval,
+  LevelMonitor,
+  LevelSummary,
+  Simulation,
+  Sink,
+  SinkSummary,
+  Tally,
+  TallySummary,
+} from "./model.ts";
+
+/**
+ * Creates a new tally monitor without any observation.
+ */
+export function createTally(): Tally {
+  return {
+    count: 0,
+    mean: 0,
+    m2: 0,
+    min: Infinity,
+    max: -Infinity,
+    samples: [],
+  };
+}
+
+/**
+ * Returns the named tally monitor of a simulation.
+ * Creates it on first use.
+ */
+export function getTally(sim: Simulation, name: string): Tally {
+  return sim.tallies[name] ??= createTally();
+}
+
+/**
+ * Records an observation in a tally monitor.
+ * Updates the running moments in O(1).
+ */
+export function recordTally(tally: Tally, value: number): void {
+  tally.count += 1;
+
+  const delta = value - tally.mean;
+  tally.mean += delta / tally.count;
+  tally.m2 += delta * (value - tally.mean);
+
+  tally.min = Math.min(tally.min, value);
+  tally.max = Math.max(tally.max, value);
+  tally.samples.push(value);
+}
+
+/**
+ * Returns a percentile (between 0 and 100) of the observations of a tally
+ * monitor, interpolating linearly between the closest ranks.
+ * Returns NaN if there is no observation.
+ */
+export function percentile(tally: Tally, p: number): number {
+  if (!(p >= 0 && p <= 100)) {
+    throw RangeError(`Invalid percentile: ${p}`);
+  }
+
+  if (tally.count === 0) {
+    return NaN;
+  }
+
+  const sorted = [...tally.samples].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Summarizes the observations of a tally monitor.
+ */
+export function summarizeTally(tally: Tally): TallySummary {
+  const empty = tally.count === 0;
+
+  return {
+    count: tally.count,
+    mean: empty ? NaN : tally.mean,
+    variance: (tally.count > 1) ? tally.m2 / (tally.count - 1) : NaN,
+    min: empty ? NaN : tally.min,
+    max: empty ? NaN : tally.max,
+    p50: percentile(tally, 50),
+    p90: percentile(tally, 90),
+    p95: percentile(tally, 95),
+    p99: percentile(tally, 99),
+  };
+}
+
+/**
+ * Returns the confidence interval of the mean of a tally monitor's observations,
+ * based on the Student t-distribution.
+ */
+export function confidenceInterval(
+  tally: Tally,
+  confidence: number = 0.95,
+): ConfidenceInterval {
+  if (!(confidence > 0 && confidence < 1)) {
+    throw RangeError(`Invalid confidence level: ${confidence}`);
+  }
+
+  const { mean, variance } = summarizeTally(tally);
+  const halfWidth = (tally.count > 1)
+    ? studentQuantile(1 - confidence, tally.count - 1) *
+      Math.sqrt(variance / tally.count)
+    : NaN;
+
+  return {
+    mean,
+    halfWidth,
+    lower: mean - halfWidth,
+    upper: mean + halfWidth,
+    confidence,
+  };
+}
+
+/**
+ * Returns the quantile of the standard normal distribution
+ * for the given lower tail probability (Acklam's rational approximation).
+ */
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw RangeError(`Invalid probability: ${p}`);
+  }
+
+  const a = [
+    -3.969683028665376e+01,
+    2.209460984245205e+02,
+    -2.759285104469687e+02,
+    1.383577518672690e+02,
+    -3.066479806614716e+01,
+    2.506628277459239e+00,
+  ];
+  const b = [
+    -5.447609879822406e+01,
+    1.615858368580409e+02,
+    -1.556989798598866e+02,
+    6.680131188771972e+01,
+    -1.328068155288572e+01,
+  ];
+  const c = [
+    -7.784894002430293e-03,
+    -3.223964580411365e-01,
+    -2.400758277161838e+00,
+    -2.549732539343734e+00,
+    4.374664141464968e+00,
+    2.938163982698783e+00,
+  ];
+  const d = [
+    7.784695709041462e-03,
+    3.224671290700398e-01,
+    2.445134137142996e+00,
+    3.754408661907416e+00,
+  ];
+
+  // Rational approximation of the tails, then of the central region
+  if (p < 0.02425 || p > 1 - 0.02425) {
+    const q = Math.sqrt(-2 * Math.log(Math.min(p, 1 - p)));
+    const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q +
+      c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+
+    return (p < 0.5) ? x : -x;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+    q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Returns the positive quantile of the Student t-distribution
+ * with the given degrees of freedom, for a two-tailed probability
+ * (Hill's algorithm 396).
+ * For example, studentQuantile(0.05, df) bounds a 95% confidence interval.
+ */
+export function studentQuantile(p: number, df: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw RangeError(`Invalid probability: ${p}`);
+  }
+
+  if (!(df >= 1)) {
+    throw RangeError(`Invalid degrees of freedom: ${df}`);
+  }
+
+  // Exact solutions for one and two degrees of freedom
+  if (df === 1) {
+    return 1 / Math.tan(p * Math.PI / 2);
+  }
+
+  if (df === 2) {
+    return Math.sqrt(2 / (p * (2 - p)) - 2);
+  }
+
+  const a = 1 / (df - 0.5);
+  const b = 48 / (a * a);
+  let c = ((20700 * a / b - 98) * a - 16) * a + 96.36;
+  const d = ((94.5 / (b + c) - 3) / b + 1) * Math.sqrt(a * Math.PI / 2) * df;
+  let x = d * p;
+  let y = Math.pow(x, 2 / df);
+
+  if (y > 0.05 + a) {
+    // Asymptotic inverse expansion about the normal quantile
+    x = normalQuantile(p / 2);
+    y = x * x;
+
+    if (df < 5) {
+      c += 0.3 * (df - 4.5) * (x + 0.6);
+    }
+
+    c = (((0.05 * d * x - 5) * x - 7) * x - 2) * x + b + c;
+    y = (((((0.4 * y + 6.3) * y + 36) * y + 94.5) / c - y - 3) / b + 1) * x;
+    y = Math.expm1(a * y * y);
+  } else {
+    y = ((1 / (((df + 6) / (df * y) - 0.089 * d - 0.822) * (df + 2) * 3) +
+              0.5 / (df + 4)) * y - 1) * (df + 1) / (df + 2) + 1 / y;
+  }
+
+  return Math.sqrt(df * y);
+}
+
+/**
+ * Creates a new level monitor with:
+ * - The given initial level (defaults to 0)
+ * - Integrals starting at the current simulation time
+ */
+export function createLevelMonitor(
+  sim: Simulation,
+  level: number = 0,
+): LevelMonitor {
+  return {
+    level,
+    createdAt: sim.currentTime,
+    updatedAt: sim.currentTime,
+    area: 0,
+    squaredArea: 0,
+    min: level,
+    max: level,
+  };
+}
+
+/**
+ * Returns the named level monitor of a simulation.
+ * Creates it on first use, with the given initial level.
+ */
+export function getLevelMonitor(
+  sim: Simulation,
+  name: string,
+  level: number = 0,
+): LevelMonitor {
+  return sim.levels[name] ??= createLevelMonitor(sim, level);
+}
+
+/**
+ * Records a change of level at the current simulation time.
+ * Accumulates the previous level over the elapsed time first.
+ */
+export function recordLevel(
+  sim: Simulation,
+  monitor: LevelMonitor,
+  level: number,
+): void {
+  accumulateLevel(sim, monitor);
+
+  monitor.level = level;
+  monitor.min = Math.min(monitor.min, level);
+  monitor.max = Math.max(monitor.max, level);
+}
+
+/**
+ * Summarizes a level monitor up to the current simulation time.
+ */
+export function summarizeLevel(
+  sim: Simulation,
+  monitor: LevelMonitor,
+): LevelSummary {
+  accumulateLevel(sim, monitor);
+
+  const duration = sim.currentTime - monitor.createdAt;
+  const mean = (duration > 0) ? monitor.area / duration : NaN;
+
+  return {
+    level: monitor.level,
+    mean,
+    variance: (duration > 0)
+      ? Math.max(0, monitor.squaredArea / duration - mean * mean)
+      : NaN,
+    min: monitor.min,
+    max: monitor.max,
+    duration,
+  };
+}
+
+/**
+ * Returns the named sink of entities of a simulation.
+ * Creates it on first use, measuring the throughput from the start
+ * of the simulation.
+ */
+export function getSink(sim: Simulation, name: string): Sink {
+  return sim.sinks[name] ??= { exited: 0, since: 0 };
+}
+
+/**
+ * Summarizes a sink of entities up to the current simulation time.
+ */
+export function summarizeSink(sim: Simulation, sink: Sink): SinkSummary {
+  const duration = sim.currentTime - sink.since;
+
+  return {
+    exited: sink.exited,
+    throughput: (duration > 0) ? sink.exited / duration : NaN,
+    duration,
+  };
+}
+
+/**
+ * Resets every monitor of a simulation in place
+ * (e.g. to discard the observations of a warm-up period).
+ * Level monitors keep their current level, restarting at the current time.
+ * Sinks restart counting at the current time.
+ * Usage statistics of resources (see utilization()) restart at the current
+ * time, with their current users and requests.
+ */
+export function resetMonitors(sim: Simulation): void {
+  for (const tally of Object.values(sim.tallies)) {
+    Object.assign(tally, createTally());
+  }
+
+  for (const monitor of Object.values(sim.levels)) {
+    Object.assign(monitor, createLevelMonitor(sim, monitor.level));
+  }
+
+  for (const sink of Object.values(sim.sinks)) {
+    Object.assign(sink, { exited: 0, since: sim.currentTime });
+  }
+
+  for (const resource of sim.resources) {
+    Object.assign(resource, {
+      createdAt: sim.currentTime,
+      updatedAt: sim.currentTime,
+      busyTime: 0,
+      queueTime: 0,
+      capacityTime: 0,
+    });
+  }
+}
+
+/**
+ * Accumulates the integrals of a level monitor up to the current time.
+ */
+function accumulateLevel(sim: Simulation, monitor: LevelMonitor): void {
+  const elapsed = sim.currentTime - monitor.updatedAt;
+
+  monitor.area += monitor.level * elapsed;
+  monitor.squaredArea += monitor.level * monitor.level * elapsed;
+  monitor.updatedAt = sim.currentTime;
+}
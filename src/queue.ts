@@ -0,0 +1,86 @@
+import { Heap } from "./model.ts";
+
+/**
+ * Creates a new empty heap ordered by the given comparison function.
+ */
+export function createHeap<T>(compare: (a: T, b: T) => number): Heap<T> {
+  return {
+    items: [],
+    compare,
+  };
+}
+
+/**
+ * Inserts an item in the heap.
+ * Runs in O(log n) by sifting the new item up from the last leaf.
+ */
+export function pushHeap<T>(heap: Heap<T>, item: T): void {
+  const items = heap.items;
+  let position = items.length;
+  items.push(item);
+
+  while (position > 0) {
+    const parent = (position - 1) >> 1;
+
+    if (heap.compare(item, items[parent]) >= 0) {
+      break;
+    }
+
+    items[position] = items[parent];
+    position = parent;
+  }
+
+  items[position] = item;
+}
+
+/**
+ * Removes and returns the lowest item of the heap.
+ * Runs in O(log n) by sifting the last leaf down from the root.
+ * Returns undefined if the heap is empty.
+ */
+export function popHeap<T>(heap: Heap<T>): T | undefined {
+  const items = heap.items;
+  const top = items[0];
+  const last = items.pop();
+
+  if (items.length === 0 || last === undefined) {
+    return top;
+  }
+
+  let position = 0;
+
+  while (true) {
+    let child = 2 * position + 1;
+
+    if (child >= items.length) {
+      break;
+    }
+
+    // Pick the lowest of both children
+    if (
+      child + 1 < items.length &&
+      heap.compare(items[child + 1], items[child]) < 0
+    ) {
+      child += 1;
+    }
+
+    if (heap.compare(last, items[child]) <= 0) {
+      break;
+    }
+
+    items[position] = items[child];
+    position = child;
+  }
+
+  items[position] = last;
+
+  return top;
+}
+
+/**
+ * Returns the lowest item of the heap without removing it.
+ * Returns undefined if the heap is empty.
+ */
+export function peekHeap<T>(heap: Heap<T>): T | undefined {
+  return heap.items[0];
+}
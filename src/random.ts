@@ -0,0 +1,284 @@
+import { RandomStream, Simulation } from "./model.ts";
+
+/**
+ * Creates a new random seed from the platform's entropy source.
+ * Used when a simulation is initialized without an explicit seed.
+ */
+export function createSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+/**
+ * Creates a new random number stream with:
+ * - The given seed (truncated to an unsigned 32-bit integer)
+ * - A generator state expanded from the seed with SplitMix32
+ */
+export function createRandomStream(seed: number): RandomStream {
+  let mix = seed >>> 0;
+
+  const next = (): number => {
+    mix = (mix + 0x9e3779b9) >>> 0;
+    let z = mix;
+    z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+    z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+    return (z ^ (z >>> 15)) >>> 0;
+  };
+
+  return {
+    seed: seed >>> 0,
+    state: [next(), next(), next(), next()],
+  };
+}
+
+/**
+ * Derives the seed of a named substream from a parent seed.
+ * Hashes the name with FNV-1a and mixes it with the parent seed.
+ */
+export function deriveSeed(seed: number, name: string): number {
+  let hash = 0x811c9dc5 ^ (seed >>> 0);
+
+  for (let i = 0; i < name.length; i++) {
+    hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Returns the named random number substream of a simulation.
+ * Creates it from the simulation seed on first use.
+ * Note: the "event-ids" stream is used to generate event IDs.
+ */
+export function getStream(sim: Simulation, name: string): RandomStream {
+  return sim.streams[name] ??= createRandomStream(deriveSeed(sim.seed, name));
+}
+
+/**
+ * Draws the next unsigned 32-bit integer of a stream (xoshiro128**).
+ * Advances the stream state in place.
+ */
+export function nextUint32(stream: RandomStream): number {
+  const state = stream.state;
+  const result = Math.imul(rotl(Math.imul(state[1], 5), 7), 9) >>> 0;
+  const t = state[1] << 9;
+
+  state[2] ^= state[0];
+  state[3] ^= state[1];
+  state[1] ^= state[2];
+  state[0] ^= state[3];
+  state[2] ^= t;
+  state[3] = rotl(state[3], 11);
+
+  // Keep the state as unsigned words
+  for (let i = 0; i < 4; i++) {
+    state[i] >>>= 0;
+  }
+
+  return result;
+}
+
+/**
+ * Draws the next number of a stream, uniformly distributed in [0, 1).
+ */
+export function nextRandom(stream: RandomStream): number {
+  return nextUint32(stream) / 0x100000000;
+}
+
+/**
+ * Draws a random identifier formatted as a version 4 UUID.
+ * Reproducible for a given stream state, unlike crypto.randomUUID().
+ */
+export function randomId(stream: RandomStream): string {
+  const hex = [0, 1, 2, 3].map(() =>
+    nextUint32(stream).toString(16).padStart(8, "0")
+  ).join("");
+
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    "4" + hex.slice(13, 16),
+    ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16) + hex.slice(17, 20),
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+/**
+ * Draws from a uniform distribution in [min, max).
+ */
+export function uniform(
+  stream: RandomStream,
+  min: number,
+  max: number,
+): number {
+  if (max < min) {
+    throw RangeError(`Invalid uniform bounds: [${min}, ${max})`);
+  }
+
+  return min + (max - min) * nextRandom(stream);
+}
+
+/**
+ * Draws from an exponential distribution with the given mean
+ * (e.g. inter-arrival times of a Poisson process).
+ */
+export function exponential(stream: RandomStream, mean: number): number {
+  if (mean <= 0) {
+    throw RangeError(`Invalid exponential mean: ${mean}`);
+  }
+
+  return -mean * Math.log(1 - nextRandom(stream));
+}
+
+/**
+ * Draws from a normal distribution (Box-Muller transform).
+ */
+export function normal(
+  stream: RandomStream,
+  mean: number,
+  stddev: number,
+): number {
+  if (stddev < 0) {
+    throw RangeError(`Invalid normal standard deviation: ${stddev}`);
+  }
+
+  const u1 = 1 - nextRandom(stream); // In (0, 1], safe for the logarithm
+  const u2 = nextRandom(stream);
+
+  return mean +
+    stddev * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Draws from a lognormal distribution.
+ * `mu` and `sigma` are the mean and standard deviation of the underlying normal.
+ */
+export function lognormal(
+  stream: RandomStream,
+  mu: number,
+  sigma: number,
+): number {
+  return Math.exp(normal(stream, mu, sigma));
+}
+
+/**
+ * Draws from a triangular distribution in [min, max] peaking at mode
+ * (inverse transform sampling).
+ */
+export function triangular(
+  stream: RandomStream,
+  min: number,
+  mode: number,
+  max: number,
+): number {
+  if (!(min <= mode && mode <= max)) {
+    throw RangeError(`Invalid triangular bounds: ${min}, ${mode}, ${max}`);
+  }
+
+  const u = nextRandom(stream);
+  const range = max - min;
+
+  if (range === 0) {
+    return min;
+  }
+
+  return (u < (mode - min) / range)
+    ? min + Math.sqrt(u * range * (mode - min))
+    : max - Math.sqrt((1 - u) * range * (max - mode));
+}
+
+/**
+ * Draws from a Poisson distribution with the given mean
+ * (e.g. number of arrivals in a period).
+ * Uses Knuth's multiplication method on chunks of the mean,
+ * so it runs in O(mean) draws and stays exact for large means.
+ */
+export function poisson(stream: RandomStream, mean: number): number {
+  if (mean < 0) {
+    throw RangeError(`Invalid Poisson mean: ${mean}`);
+  }
+
+  let count = 0;
+  let remaining = mean;
+
+  // The sum of independent Poisson variables is a Poisson variable,
+  // chunks keep exp(-chunk) away from underflow
+  while (remaining > 0) {
+    const chunk = Math.min(remaining, 30);
+    const limit = Math.exp(-chunk);
+    let product = nextRandom(stream);
+
+    while (product > limit) {
+      count += 1;
+      product *= nextRandom(stream);
+    }
+
+    remaining -= chunk;
+  }
+
+  return count;
+}
+
+/**
+ * Draws from a Weibull distribution (inverse transform sampling).
+ */
+export function weibull(
+  stream: RandomStream,
+  scale: number,
+  shape: number,
+): number {
+  if (scale <= 0 || shape <= 0) {
+    throw RangeError(`Invalid Weibull parameters: ${scale}, ${shape}`);
+  }
+
+  return scale * Math.pow(-Math.log(1 - nextRandom(stream)), 1 / shape);
+}
+
+/**
+ * Draws one of the observed samples, each one being equally likely
+ * (empirical distribution of the samples).
+ */
+export function empirical<T>(stream: RandomStream, samples: T[]): T {
+  if (samples.length === 0) {
+    throw RangeError("Empirical distribution without samples");
+  }
+
+  return samples[Math.floor(nextRandom(stream) * samples.length)];
+}
+
+/**
+ * Draws one of the values with a probability proportional to its weight
+ * (discrete distribution).
+ */
+export function discrete<T>(
+  stream: RandomStream,
+  values: T[],
+  weights: number[],
+): T {
+  if (values.length === 0 || values.length !== weights.length) {
+    throw RangeError(
+      `Invalid discrete distribution: ${values.length} values, ` +
+        `${weights.length} weights`,
+    );
+  }
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let threshold = nextRandom(stream) * total;
+
+  for (let i = 0; i < values.length; i++) {
+    threshold -= weights[i];
+
+    if (threshold < 0) {
+      return values[i];
+    }
+  }
+
+  // Rounding errors may leave a tiny remainder: fall back to the last value
+  return values[values.length - 1];
+}
+
+/**
+ * Rotates a 32-bit word to the left.
+ */
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
@@ -0,0 +1,81 @@
+import { RealtimeOptions, RealtimeStats, Simulation } from "./model.ts";
+import { beginRun, countStep, endRun, peek, stepAsync } from "./simulation.ts";
+
+/**
+ * Runs the simulation in real time: a unit of simulation time lasts
+ * `factor` milliseconds of real-world time.
+ * Waits between events, advancing the simulation time along with
+ * the real-world time, so that external code can inject events
+ * (e.g. `scheduleEvent(sim, createEvent(sim, sim.currentTime, process))`)
+ * while the run is waiting; they are picked up within `interval` milliseconds.
+ * Reports events processed later than the tolerance through `onLag`,
+ * or aborts the run if strict.
+ * Supports asynchronous processes (see runSimulationAsync()).
+ * Stops when no more events remain, or when the `until` time is reached.
+ * Returns statistics about the simulation run.
+ */
+export async function runRealtime(
+  sim: Simulation,
+  options: RealtimeOptions = {},
+): Promise<RealtimeStats> {
+  const factor = options.factor ?? 1000;
+  const tolerance = options.tolerance ?? 20;
+  const interval = options.interval ?? 10;
+
+  if (!(factor > 0)) {
+    throw RangeError(`Invalid real-time factor: ${factor}`);
+  }
+
+  const run = beginRun(sim, options);
+  const origin = sim.currentTime;
+  const wallStart = performance.now();
+  let maxLag = 0;
+
+  // Simulation time matching the current real-world time
+  const now = () => origin + (performance.now() - wallStart) / factor;
+
+  try {
+    while (true) {
+      // Wait for the real-world time of the next event (or of the horizon),
+      // following the simulation time meanwhile to stamp injected events
+      let next = peek(sim);
+      let target = Math.min(next, run.until);
+
+      while (Number.isFinite(target) && now() < target) {
+        sim.currentTime = Math.max(sim.currentTime, now());
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, Math.min((target - now()) * factor, interval))
+        );
+
+        next = peek(sim);
+        target = Math.min(next, run.until);
+      }
+
+      if (next >= run.until) {
+        break;
+      }
+
+      // Check how late the event is
+      const lag = (now() - next) * factor;
+      maxLag = Math.max(maxLag, lag);
+
+      if (lag > tolerance) {
+        if (options.strict) {
+          throw Error(
+            `Simulation fell behind real time by ${lag.toFixed(1)} ms ` +
+              `at time ${next}`,
+          );
+        }
+
+        options.onLag?.(lag, sim);
+      }
+
+      countStep(run, await stepAsync(sim));
+    }
+  } finally {
+    sim.trace = run.trace;
+  }
+
+  return { ...endRun(sim, run), maxLag };
+}
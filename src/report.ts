@@ -0,0 +1,107 @@
+import { ExperimentResult, SimulationStats } from "./model.ts";
+
+/**
+ * Formats the statistics of a run as plain-text tables
+ * (tally monitors, level monitors and sinks), for the console.
+ */
+export function formatStats(stats: SimulationStats): string {
+  const sections = [
+    `Events processed: ${stats.eventsProcessed}\n` +
+    `Duration: ${formatNumber(stats.duration)} ms`,
+  ];
+
+  if (Object.keys(stats.tallies).length > 0) {
+    sections.push(formatTable(
+      ["tally", "count", "mean", "stddev", "min", "p50", "p95", "max"],
+      Object.entries(stats.tallies).map(([name, summary]) => [
+        name,
+        String(summary.count),
+        ...[
+          summary.mean,
+          Math.sqrt(summary.variance),
+          summary.min,
+          summary.p50,
+          summary.p95,
+          summary.max,
+        ].map(formatNumber),
+      ]),
+    ));
+  }
+
+  if (Object.keys(stats.levels).length > 0) {
+    sections.push(formatTable(
+      ["level", "mean", "stddev", "min", "max", "current"],
+      Object.entries(stats.levels).map(([name, summary]) => [
+        name,
+        ...[
+          summary.mean,
+          Math.sqrt(summary.variance),
+          summary.min,
+          summary.max,
+          summary.level,
+        ].map(formatNumber),
+      ]),
+    ));
+  }
+
+  if (Object.keys(stats.sinks).length > 0) {
+    sections.push(formatTable(
+      ["sink", "exited", "throughput"],
+      Object.entries(stats.sinks).map(([name, summary]) => [
+        name,
+        String(summary.exited),
+        formatNumber(summary.throughput),
+      ]),
+    ));
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Formats the results of an experiment as a plain-text table:
+ * the confidence interval of the mean of each metric across replications.
+ */
+export function formatExperiment<P>(result: ExperimentResult<P>): string {
+  const confidence = Object.values(result.metrics)[0]?.confidence ?? 0.95;
+
+  return [
+    `Replications: ${result.replications.length}`,
+    formatTable(
+      ["metric", "mean", "±", "lower", "upper"],
+      Object.entries(result.metrics).map(([name, interval]) => [
+        name,
+        ...[
+          interval.mean,
+          interval.halfWidth,
+          interval.lower,
+          interval.upper,
+        ].map(formatNumber),
+      ]),
+    ),
+    `(${confidence * 100}% confidence intervals)`,
+  ].join("\n\n");
+}
+
+/**
+ * Formats rows of cells as a table with aligned columns:
+ * the first column left-aligned, the others right-aligned.
+ */
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length))
+  );
+
+  return [headers, ...rows].map((row) =>
+    row.map((cell, i) =>
+      (i === 0) ? cell.padEnd(widths[i]) : cell.padStart(widths[i])
+    ).join("  ").trimEnd()
+  ).join("\n");
+}
+
+/**
+ * Formats a number with 4 significant digits at most.
+ */
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? String(Number(value.toPrecision(4))) : "-";
+}
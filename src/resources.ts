@@ -1,52 +1,105 @@
-import { Event, ProcessState, Simulation, Store } from "./model.ts";
+import {
+  Container,
+  Event,
+  EventPriority,
+  ProcessState,
+  Resource,
+  Signal,
+  Simulation,
+  Store,
+  TraceKind,
+} from "./model.ts";
+import { compareEvents, Interrupt, resumeProcess } from "./simulation.ts";
+import { emitTrace } from "./trace.ts";
 
 /**
  * Creates a new store with:
- * - Unique ID
- * - Array of initial items (defaults to an empty array)
- * - Empty requests array (no scheduled get requests)
+ * - The given capacity (defaults to an unlimited capacity)
+ * - Empty requests arrays (no item, no pending request)
+ * - An optional name, identifying it in traces
  */
-export function createStore<T>(): Store<T> {
+export function createStore<T>(
+  capacity: number = Infinity,
+  name?: string,
+): Store<T> {
+  if (!(capacity >= 1)) {
+    throw RangeError(`Invalid store capacity: ${capacity}`);
+  }
+
   return {
     getRequests: [],
     putRequests: [],
+    waitingPuts: [],
+    capacity,
+    filters: {},
+    name,
   };
 }
 
+/**
+ * Creates a new store handing out the item with the lowest key first,
+ * then the earliest put one among equal keys.
+ */
+export function createPriorityStore<T>(
+  key: (item: T) => number,
+  capacity: number = Infinity,
+  name?: string,
+): Store<T> {
+  return { ...createStore<T>(capacity, name), key };
+}
+
 /**
  * Blocking operations that gets an item from a store.
  * Pops an item from the store if available, returning it immediately.
  * If there is no item in store, yields control and resumes on the next put operation.
+ * With a filter, only accepts an item matching it, waiting for one if needed;
+ * this turns any store into a filter store.
  * Returns the item that has been put into the request.
  */
 export function* get<T>(
-  _sim: Simulation,
+  sim: Simulation,
   event: Event<T>,
   store: Store<T>,
+  filter?: (item: T) => boolean,
 ): ProcessState<T> {
-  while (true) {
-    // If a put request has been fired, pop it from the queue
-    // Return the item immediately
-    if (store.putRequests.length > 0) {
-      const putRequest = store.putRequests.sort((a, b) =>
-        b.scheduledAt - a.scheduledAt
-      ).pop();
-
-      return putRequest?.item;
-    }
+  // Emit a get request, stamped with the time and order it was made at
+  const getRequest: Event<T> = {
+    ...event,
+    item: undefined,
+    scheduledAt: sim.currentTime,
+    sequence: sim.sequence++,
+  };
 
-    // If there is no item available, emit a get request
-    store.getRequests = [...store.getRequests, event];
+  store.getRequests = [...store.getRequests, getRequest];
 
-    // Yield control
-    yield;
+  if (filter) {
+    store.filters[event.id] = filter;
   }
+
+  settleStore(sim, store, event.id);
+
+  // Yield control until an item has been handed to the request
+  let handed = false;
+  try {
+    while (store.getRequests.includes(getRequest)) {
+      yield;
+    }
+    handed = true;
+  } finally {
+    // Interrupted or cancelled: withdraw the request, or give back its item
+    if (!handed) {
+      withdrawGet(sim, store, getRequest);
+    }
+  }
+
+  return getRequest.item;
 }
 
 /**
- * Non-blocking operation that puts an item in a store.
+ * Operation that puts an item in a store.
  * If there are pending get requests, handles the earliest one with said item.
  * Otherwise, stores the item in a put request for future use.
+ * Blocks while the store is full, until a get operation makes room.
  */
 export function* put<T>(
   sim: Simulation,
@@ -54,21 +107,768 @@ export function* put<T>(
   store: Store<T>,
   item: T,
 ): ProcessState<T> {
-  // Sort get requests in descending order so we can efficiently pop the earliest one
-  const getRequest = store.getRequests.sort((a, b) =>
-    b.scheduledAt - a.scheduledAt
-  ).pop();
-
-  // Either create a new put request or handle an existing get request
-  const putRequest = (!getRequest) ? { ...event, item } : {
-    ...getRequest,
-    scheduledAt: sim.currentTime,
+  // Emit a put request, stamped with the time and order it was made at
+  const putRequest: Event<T> = {
+    ...event,
     item,
+    scheduledAt: sim.currentTime,
+    sequence: sim.sequence++,
+  };
+
+  store.waitingPuts = [...store.waitingPuts, putRequest];
+
+  settleStore(sim, store, event.id);
+
+  // Yield control until there is room for the item
+  try {
+    while (store.waitingPuts.includes(putRequest)) {
+      yield;
+    }
+  } finally {
+    // Interrupted or cancelled: withdraw the request if still waiting
+    store.waitingPuts = store.waitingPuts.filter((request) =>
+      request !== putRequest
+    );
+  }
+}
+
+/**
+ * Withdraws a get request of a store whose process stopped waiting.
+ * If an item was already handed to it, gives the item back to the store.
+ */
+function withdrawGet<T>(
+  sim: Simulation,
+  store: Store<T>,
+  getRequest: Event<T>,
+): void {
+  delete store.filters[getRequest.id];
+
+  if (store.getRequests.includes(getRequest)) {
+    store.getRequests = store.getRequests.filter((request) =>
+      request !== getRequest
+    );
+  } else {
+    store.putRequests = [...store.putRequests, getRequest];
+    settleStore(sim, store, getRequest.id);
+  }
+}
+
+/**
+ * Handles the pending requests of a store until none can proceed:
+ * - Moves the earliest waiting put requests in the store while there is room
+ * - Hands each get request, earliest first, the first item it accepts
+ * Resumes the processes of handled requests, except for the calling process.
+ */
+function settleStore<T>(
+  sim: Simulation,
+  store: Store<T>,
+  caller: string,
+): void {
+  let progress = true;
+
+  while (progress) {
+    progress = false;
+
+    // Sort waiting put requests in descending order so we can efficiently pop the earliest one
+    store.waitingPuts.sort((a, b) => compareEvents(b, a));
+
+    while (
+      store.waitingPuts.length > 0 &&
+      store.putRequests.length < store.capacity
+    ) {
+      const putRequest = store.waitingPuts.pop()!;
+      store.putRequests = [...store.putRequests, putRequest];
+      emitTrace(sim, TraceKind.Put, putRequest, {
+        item: putRequest.item,
+        resource: store.name ?? "store",
+        queue: store.putRequests.length,
+      });
+
+      if (putRequest.id !== caller) {
+        sim.events = resumeProcess(sim, putRequest.id);
+      }
+    }
+
+    // Items are handed out by key first for priority stores
+    const key = store.key;
+    store.putRequests.sort((a, b) =>
+      (key ? key(a.item as T) - key(b.item as T) : 0) || compareEvents(a, b)
+    );
+    store.getRequests.sort(compareEvents);
+
+    for (const getRequest of [...store.getRequests]) {
+      const filter = store.filters[getRequest.id];
+      const putRequest = store.putRequests.find((request) =>
+        !filter || filter(request.item as T)
+      );
+
+      if (!putRequest) {
+        continue;
+      }
+
+      // Hand the item over to the get request
+      getRequest.item = putRequest.item;
+      store.putRequests = store.putRequests.filter((request) =>
+        request !== putRequest
+      );
+      emitTrace(sim, TraceKind.Get, getRequest, {
+        item: getRequest.item,
+        resource: store.name ?? "store",
+        queue: store.putRequests.length,
+      });
+      store.getRequests = store.getRequests.filter((request) =>
+        request !== getRequest
+      );
+      delete store.filters[getRequest.id];
+
+      if (getRequest.id !== caller) {
+        sim.events = resumeProcess(sim, getRequest.id);
+      }
+
+      progress = true;
+    }
+  }
+}
+
+/**
+ * Interrupt-style signal thrown into a process evicted from a preemptive resource.
+ * Tells how long the process held the resource, so it can decide to requeue.
+ * The evicted process doesn't hold the resource anymore: it must not release it.
+ */
+export class Preempted extends Interrupt {
+  constructor(
+    /** The resource the process was evicted from */
+    public resource: Resource,
+    /** ID of the event of the process that took over the slot */
+    public by: string,
+    /** Simulation time at which the evicted process had been granted the slot */
+    public usageSince: number,
+    /** Duration during which the evicted process held the slot */
+    public held: number,
+  ) {
+    super(by, `Preempted by ${by} after holding the resource for ${held}`);
+    this.name = "Preempted";
+  }
+}
+
+/**
+ * Creates a new resource with:
+ * - The given number of slots
+ * - No user and no pending request
+ * - Usage statistics starting at the current simulation time
+ * - An optional name, identifying it in traces
+ * The resource is registered in the simulation, so that its statistics
+ * are reset with the monitors (see resetMonitors()).
+ */
+export function createResource(
+  sim: Simulation,
+  capacity: number,
+  name?: string,
+): Resource {
+  if (!(capacity >= 1)) {
+    throw RangeError(`Invalid resource capacity: ${capacity}`);
+  }
+
+  const resource: Resource = {
+    capacity,
+    users: [],
+    since: {},
+    requests: [],
+    createdAt: sim.currentTime,
+    updatedAt: sim.currentTime,
+    busyTime: 0,
+    queueTime: 0,
+    capacityTime: 0,
+    name,
+  };
+
+  sim.resources = [...sim.resources, resource];
+
+  return resource;
+}
+
+/**
+ * Creates a new resource granting slots by request priority first
+ * (lowest value first), then by request time.
+ */
+export function createPriorityResource(
+  sim: Simulation,
+  capacity: number,
+  name?: string,
+): Resource {
+  return Object.assign(createResource(sim, capacity, name), {
+    prioritized: true,
+  });
+}
+
+/**
+ * Creates a new priority resource where a request evicts the user
+ * with the lowest priority (highest value) if it is lower than its own.
+ * The evicted process is resumed with a Preempted error.
+ */
+export function createPreemptiveResource(
+  sim: Simulation,
+  capacity: number,
+  name?: string,
+): Resource {
+  return Object.assign(createResource(sim, capacity, name), {
+    prioritized: true,
+    preemptive: true,
+  });
+}
+
+/**
+ * Blocking operation that requests a slot of a resource.
+ * Takes a free slot immediately if there is one and nobody is waiting ahead.
+ * On a preemptive resource, evicts a user with a lower priority if any.
+ * Otherwise, yields control and resumes once a release hands over a slot.
+ * The priority of the request defaults to the priority of the event.
+ * The slot must be given back with release().
+ */
+export function* request<T>(
+  sim: Simulation,
+  event: Event<T>,
+  resource: Resource,
+  priority: number = event.priority ?? EventPriority.Normal,
+): ProcessState<T> {
+  accumulateResource(sim, resource);
+
+  // Stamp the request with the time, priority and order it was made at
+  const request = {
+    ...event,
+    scheduledAt: sim.currentTime,
+    priority,
+    sequence: sim.sequence++,
+  } as Event<unknown>;
+
+  // Take a free slot immediately if nobody is waiting ahead
+  if (
+    resource.users.length < resource.capacity &&
+    resource.requests.length === 0
+  ) {
+    grantResource(sim, resource, request);
+    return;
+  }
+
+  // Evict the user with the lowest priority, the most recent one among equals
+  if (resource.preemptive) {
+    const victim = resource.users
+      .filter((user) => (user.priority ?? EventPriority.Normal) > priority)
+      .sort((a, b) =>
+        ((b.priority ?? EventPriority.Normal) -
+          (a.priority ?? EventPriority.Normal)) ||
+        (resource.since[b.id] - resource.since[a.id])
+      )[0];
+
+    if (victim) {
+      const usageSince = resource.since[victim.id];
+
+      revokeResource(sim, resource, victim);
+      grantResource(sim, resource, request);
+
+      // Resume the evicted process with the preemption signal
+      const preempted = new Preempted(
+        resource,
+        event.id,
+        usageSince,
+        sim.currentTime - usageSince,
+      );
+      sim.events = resumeProcess(sim, victim.id, preempted);
+
+      return;
+    }
+  }
+
+  // Emit a request
+  resource.requests = [...resource.requests, request];
+  emitTrace(sim, TraceKind.Request, request, {
+    resource: resource.name ?? "resource",
+    queue: resource.requests.length,
+  });
+
+  // Yield control until a release has granted the slot
+  let granted = false;
+  try {
+    while (!resource.users.some((user) => user.id === event.id)) {
+      yield;
+    }
+    granted = true;
+  } finally {
+    // Interrupted or cancelled: withdraw the request, or give back the slot
+    if (!granted) {
+      withdrawRequest(sim, resource, request);
+    }
+  }
+}
+
+/**
+ * Non-blocking operation that gives back a slot of a resource.
+ * If there are pending requests, grants the freed slot to the earliest one
+ * (highest priority one for priority resources) and resumes its process.
+ */
+export function release<T>(
+  sim: Simulation,
+  event: Event<T>,
+  resource: Resource,
+): void {
+  accumulateResource(sim, resource);
+
+  const user = resource.users.find((user) => user.id === event.id);
+
+  if (!user) {
+    throw Error(`Resource released without being held: ${event.id}`);
+  }
+
+  revokeResource(sim, resource, user);
+
+  // Grant the slot to the next request if any, and resume its process
+  const request = handOverResource(sim, resource);
+
+  if (request) {
+    sim.events = resumeProcess(sim, request.id);
+  }
+}
+
+/**
+ * Changes the capacity of a resource (e.g. following a schedule,
+ * see scheduleCapacity()).
+ * New slots are granted to the pending requests right away.
+ * With a lower capacity, users keep their slots until they release them,
+ * which are then not handed over until the resource is below capacity.
+ */
+export function setCapacity(
+  sim: Simulation,
+  resource: Resource,
+  capacity: number,
+): void {
+  if (!(capacity >= 0)) {
+    throw RangeError(`Invalid resource capacity: ${capacity}`);
+  }
+
+  accumulateResource(sim, resource);
+  resource.capacity = capacity;
+
+  // Grant the new slots to the pending requests, and resume their processes
+  let request = handOverResource(sim, resource);
+
+  while (request) {
+    sim.events = resumeProcess(sim, request.id);
+    request = handOverResource(sim, resource);
+  }
+}
+
+/**
+ * Time-weighted average fraction of the resource slots in use,
+ * since the resource was created or its statistics were reset
+ * (relative to its capacity over time).
+ */
+export function utilization(sim: Simulation, resource: Resource): number {
+  accumulateResource(sim, resource);
+
+  return (resource.capacityTime > 0)
+    ? resource.busyTime / resource.capacityTime
+    : 0;
+}
+
+/**
+ * Time-weighted average number of pending requests of the resource,
+ * since the resource was created or its statistics were reset.
+ */
+export function averageQueueLength(
+  sim: Simulation,
+  resource: Resource,
+): number {
+  accumulateResource(sim, resource);
+
+  const elapsed = sim.currentTime - resource.createdAt;
+
+  return (elapsed > 0) ? resource.queueTime / elapsed : 0;
+}
+
+/**
+ * Accumulates the usage integrals of a resource up to the current time.
+ * Must be called before any change of its users or requests.
+ */
+function accumulateResource(sim: Simulation, resource: Resource): void {
+  const elapsed = sim.currentTime - resource.updatedAt;
+
+  resource.busyTime += resource.users.length * elapsed;
+  resource.queueTime += resource.requests.length * elapsed;
+  resource.capacityTime += resource.capacity * elapsed;
+  resource.updatedAt = sim.currentTime;
+}
+
+/**
+ * Creates a new container with:
+ * - The given capacity (defaults to an unlimited capacity)
+ * - The given initial level (defaults to empty)
+ * - Empty requests arrays
+ * - A level history starting at the current simulation time
+ */
+export function createContainer(
+  sim: Simulation,
+  capacity: number = Infinity,
+  level: number = 0,
+): Container {
+  if (!(capacity > 0) || !(level >= 0 && level <= capacity)) {
+    throw RangeError(
+      `Invalid container level: ${level} (capacity: ${capacity})`,
+    );
+  }
+
+  return {
+    capacity,
+    level,
+    getRequests: [],
+    putRequests: [],
+    history: [{ time: sim.currentTime, level }],
   };
+}
 
-  // There was no pending get request, store the put request
-  store.putRequests = [putRequest, ...store.putRequests];
+/**
+ * Blocking operation that puts an amount in a container.
+ * Adds it immediately if it fits and nobody is waiting ahead.
+ * Otherwise, yields control and resumes once enough room has been freed.
+ */
+export function* putAmount<T>(
+  sim: Simulation,
+  event: Event<T>,
+  container: Container,
+  amount: number,
+): ProcessState<T> {
+  if (!(amount > 0 && amount <= container.capacity)) {
+    throw RangeError(
+      `Invalid amount put in container: ${amount} ` +
+        `(capacity: ${container.capacity})`,
+    );
+  }
+
+  // Emit a put request, stamped with the time and order it was made at
+  const putRequest = {
+    ...event as Event<unknown>,
+    scheduledAt: sim.currentTime,
+    item: amount,
+    sequence: sim.sequence++,
+  } as Event<number>;
+
+  container.putRequests = [...container.putRequests, putRequest];
 
-  // Yield continuation
-  yield putRequest;
+  settleContainer(sim, container, event.id);
+
+  // Yield control until the amount has been added
+  let handled = false;
+  try {
+    while (container.putRequests.includes(putRequest)) {
+      yield;
+    }
+    handled = true;
+  } finally {
+    // Interrupted or cancelled: withdraw the request
+    if (!handled) {
+      withdrawAmount(sim, container, putRequest, false);
+    }
+  }
+}
+
+/**
+ * Blocking operation that gets an amount from a container.
+ * Removes it immediately if available and nobody is waiting ahead.
+ * Otherwise, yields control and resumes once enough has been put.
+ */
+export function* getAmount<T>(
+  sim: Simulation,
+  event: Event<T>,
+  container: Container,
+  amount: number,
+): ProcessState<T> {
+  if (!(amount > 0 && amount <= container.capacity)) {
+    throw RangeError(
+      `Invalid amount got from container: ${amount} ` +
+        `(capacity: ${container.capacity})`,
+    );
+  }
+
+  // Emit a get request, stamped with the time and order it was made at
+  const getRequest = {
+    ...event as Event<unknown>,
+    scheduledAt: sim.currentTime,
+    item: amount,
+    sequence: sim.sequence++,
+  } as Event<number>;
+
+  container.getRequests = [...container.getRequests, getRequest];
+
+  settleContainer(sim, container, event.id);
+
+  // Yield control until the amount has been removed
+  let handled = false;
+  try {
+    while (container.getRequests.includes(getRequest)) {
+      yield;
+    }
+    handled = true;
+  } finally {
+    // Interrupted or cancelled: withdraw the request
+    if (!handled) {
+      withdrawAmount(sim, container, getRequest, true);
+    }
+  }
+}
+
+/**
+ * Withdraws a request of a container whose process stopped waiting.
+ * If a get request was already handled, gives the amount back to the container;
+ * a handled put request stays in effect.
+ * Requests waiting behind the withdrawn one may then proceed.
+ */
+function withdrawAmount(
+  sim: Simulation,
+  container: Container,
+  request: Event<number>,
+  isGet: boolean,
+): void {
+  if (container.getRequests.includes(request)) {
+    container.getRequests = container.getRequests.filter((other) =>
+      other !== request
+    );
+  } else if (container.putRequests.includes(request)) {
+    container.putRequests = container.putRequests.filter((other) =>
+      other !== request
+    );
+  } else if (isGet) {
+    container.level += request.item ?? 0;
+    container.history.push({ time: sim.currentTime, level: container.level });
+  }
+
+  settleContainer(sim, container, request.id);
+}
+
+/**
+ * Handles the pending requests of a container, earliest first,
+ * until neither the earliest put nor the earliest get request can proceed.
+ * Resumes the processes of handled requests, except for the calling process.
+ */
+function settleContainer(
+  sim: Simulation,
+  container: Container,
+  caller: string,
+): void {
+  let progress = true;
+
+  while (progress) {
+    progress = false;
+
+    // Sort requests in descending order so we can efficiently peek the earliest one
+    container.putRequests.sort((a, b) => compareEvents(b, a));
+    container.getRequests.sort((a, b) => compareEvents(b, a));
+
+    const putRequest = container.putRequests[container.putRequests.length - 1];
+    if (
+      putRequest &&
+      container.level + (putRequest.item ?? 0) <= container.capacity
+    ) {
+      container.putRequests.pop();
+      container.level += putRequest.item ?? 0;
+      container.history.push({ time: sim.currentTime, level: container.level });
+
+      if (putRequest.id !== caller) {
+        sim.events = resumeProcess(sim, putRequest.id);
+      }
+
+      progress = true;
+    }
+
+    const getRequest = container.getRequests[container.getRequests.length - 1];
+    if (getRequest && container.level >= (getRequest.item ?? 0)) {
+      container.getRequests.pop();
+      container.level -= getRequest.item ?? 0;
+      container.history.push({ time: sim.currentTime, level: container.level });
+
+      if (getRequest.id !== caller) {
+        sim.events = resumeProcess(sim, getRequest.id);
+      }
+
+      progress = true;
+    }
+  }
+}
+
+/**
+ * Withdraws a request of a resource whose process stopped waiting.
+ * If the slot was already granted to it, hands it over to the next request.
+ */
+function withdrawRequest(
+  sim: Simulation,
+  resource: Resource,
+  request: Event<unknown>,
+): void {
+  accumulateResource(sim, resource);
+
+  if (resource.requests.includes(request)) {
+    resource.requests = resource.requests.filter((other) => other !== request);
+    emitTrace(sim, TraceKind.Release, request, {
+      resource: resource.name ?? "resource",
+      queue: resource.requests.length,
+    });
+    return;
+  }
+
+  revokeResource(sim, resource, request);
+
+  const next = handOverResource(sim, resource);
+
+  if (next) {
+    sim.events = resumeProcess(sim, next.id);
+  }
+}
+
+/**
+ * Grants a free slot of a resource to the earliest pending request
+ * (highest priority one for priority resources).
+ * Returns the granted request, if any.
+ */
+function handOverResource(
+  sim: Simulation,
+  resource: Resource,
+): Event<unknown> | undefined {
+  // The capacity may have been lowered below the number of users
+  if (resource.users.length >= resource.capacity) {
+    return undefined;
+  }
+
+  // Sort requests in descending order so we can efficiently pop the earliest one
+  const compare = resource.prioritized ? comparePriorities : compareEvents;
+  const request = resource.requests.sort((a, b) => compare(b, a)).pop();
+
+  if (request) {
+    grantResource(sim, resource, request);
+  }
+
+  return request;
+}
+
+/**
+ * Gives a slot of a resource to a request.
+ */
+function grantResource(
+  sim: Simulation,
+  resource: Resource,
+  request: Event<unknown>,
+): void {
+  resource.users = [...resource.users, request];
+  resource.since[request.id] = sim.currentTime;
+  emitTrace(sim, TraceKind.Acquire, request, {
+    resource: resource.name ?? "resource",
+    queue: resource.requests.length,
+  });
+}
+
+/**
+ * Takes a slot of a resource back from a user.
+ */
+function revokeResource(
+  sim: Simulation,
+  resource: Resource,
+  user: Event<unknown>,
+): void {
+  resource.users = resource.users.filter((other) => other.id !== user.id);
+  delete resource.since[user.id];
+  emitTrace(sim, TraceKind.Release, user, {
+    resource: resource.name ?? "resource",
+    queue: resource.requests.length,
+  });
+}
+
+/**
+ * Ordering of priority resource requests.
+ * Lowest priority value first, then earliest request first,
+ * then lowest insertion sequence first.
+ */
+function comparePriorities<T>(a: Event<T>, b: Event<T>): number {
+  return ((a.priority ?? EventPriority.Normal) -
+    (b.priority ?? EventPriority.Normal)) ||
+    compareEvents(a, b);
+}
+
+/**
+ * Creates a new signal: each trigger wakes the processes waiting at that time.
+ */
+export function createSignal<T = unknown>(): Signal<T> {
+  return {
+    waiters: [],
+    values: {},
+    open: false,
+  };
+}
+
+/**
+ * Creates a new latching signal (a gate): once triggered, it stays open
+ * and lets processes through without waiting, until it is reset.
+ */
+export function createLatch<T = unknown>(): Signal<T> {
+  return { ...createSignal<T>(), latching: true };
+}
+
+/**
+ * Blocking operation that waits for the next trigger of a signal.
+ * Passes through immediately if the signal is an open latch.
+ * Returns the value of the trigger.
+ */
+export function* wait<T, U>(
+  _sim: Simulation,
+  event: Event<T>,
+  signal: Signal<U>,
+): Generator<undefined, U | undefined, void> {
+  if (signal.open) {
+    return signal.value;
+  }
+
+  signal.waiters = [...signal.waiters, event.id];
+
+  // Yield control until a trigger has woken the process
+  try {
+    while (signal.waiters.includes(event.id)) {
+      yield;
+    }
+  } finally {
+    // Interrupted or cancelled: stop waiting
+    signal.waiters = signal.waiters.filter((id) => id !== event.id);
+  }
+
+  const value = signal.values[event.id];
+  delete signal.values[event.id];
+
+  return value;
+}
+
+/**
+ * Non-blocking operation that triggers a signal with an optional value.
+ * Wakes all the processes waiting on it, in the order they started waiting.
+ * A latching signal stays open until reset.
+ * Returns the number of woken processes.
+ */
+export function trigger<T>(
+  sim: Simulation,
+  signal: Signal<T>,
+  value?: T,
+): number {
+  const waiters = signal.waiters;
+
+  signal.waiters = [];
+  signal.value = value;
+  signal.open = Boolean(signal.latching);
+
+  for (const id of waiters) {
+    signal.values[id] = value;
+    sim.events = resumeProcess(sim, id);
+  }
+
+  return waiters.length;
+}
+
+/**
+ * Closes a latching signal: processes wait for its next trigger again.
+ */
+export function resetSignal<T>(signal: Signal<T>): void {
+  signal.open = false;
 }
@@ -0,0 +1,188 @@
+import {
+  AsyncProcess,
+  CalendarSchedule,
+  Event,
+  Process,
+  RecurringOptions,
+  Resource,
+  Simulation,
+} from "./model.ts";
+import { setCapacity } from "./resources.ts";
+import { createEvent, scheduleEvent, spawn, timeout } from "./simulation.ts";
+
+/**
+ * Starts a process recurrently: at the start time, then after each
+ * fixed interval, or after each time drawn from the distribution.
+ * Each occurrence is a new process, running independently.
+ * Stops after `count` occurrences, or before the `until` time.
+ * Returns the handle of the recurrence: cancel it with cancelEvent()
+ * to stop future occurrences.
+ */
+export function scheduleRecurring<T>(
+  sim: Simulation,
+  options: RecurringOptions<T>,
+  process: Process<T> | AsyncProcess<T>,
+): Event<void> {
+  const { interval, distribution } = options;
+  const start = options.start ?? sim.currentTime;
+  const until = options.until ?? Infinity;
+  const count = options.count ?? Infinity;
+
+  if ((interval === undefined) === (distribution === undefined)) {
+    throw Error("Recurrence needs either an interval or a distribution");
+  }
+
+  if (interval !== undefined && !(interval > 0)) {
+    throw RangeError(`Invalid recurrence interval: ${interval}`);
+  }
+
+  if (!(count === Infinity || (Number.isInteger(count) && count >= 0))) {
+    throw RangeError(`Invalid recurrence count: ${count}`);
+  }
+
+  const recurrence: Process = function* (sim) {
+    for (
+      let occurrence = 1;
+      occurrence <= count && sim.currentTime < until;
+      occurrence++
+    ) {
+      spawn(sim, process, options.item);
+
+      if (occurrence >= count) {
+        return;
+      }
+
+      const delay = interval ?? distribution!(sim);
+
+      if (!(delay >= 0)) {
+        throw RangeError(`Invalid recurrence delay: ${delay}`);
+      }
+
+      yield* timeout(sim, delay);
+    }
+  };
+
+  const event = createEvent(sim, start, recurrence);
+  sim.events = scheduleEvent(sim, event);
+
+  return event;
+}
+
+/**
+ * Returns the value of a calendar schedule at the given time.
+ */
+export function scheduleValue(
+  schedule: CalendarSchedule,
+  time: number,
+): number {
+  const phase = schedulePhase(schedule, time);
+  const window = schedule.windows.find(({ from, to }) =>
+    from <= phase && phase < to
+  );
+
+  return window ? (window.value ?? 1) : (schedule.offValue ?? 0);
+}
+
+/**
+ * Returns the time of the next change of value of a calendar schedule,
+ * strictly after the given time (Infinity if its value never changes).
+ */
+export function nextScheduleChange(
+  schedule: CalendarSchedule,
+  time: number,
+): number {
+  validateSchedule(schedule);
+
+  const value = scheduleValue(schedule, time);
+  const cycleStart = time - schedulePhase(schedule, time);
+
+  // The schedule repeats itself: looking one period ahead is enough
+  const boundaries = schedule.windows
+    .flatMap(({ from, to }) => [from, to])
+    .flatMap((
+      offset,
+    ) => [cycleStart + offset, cycleStart + schedule.period + offset])
+    .filter((boundary) => boundary > time && boundary <= time + schedule.period)
+    .sort((a, b) => a - b);
+
+  return boundaries.find((boundary) =>
+    scheduleValue(schedule, boundary) !== value
+  ) ?? Infinity;
+}
+
+/**
+ * Follows a calendar schedule: calls `apply` with its value right away,
+ * then with its new value at each change, before the `until` time.
+ * Returns the handle of the follower: cancel it with cancelEvent() to stop.
+ */
+export function followSchedule(
+  sim: Simulation,
+  schedule: CalendarSchedule,
+  apply: (sim: Simulation, value: number) => void,
+  until: number = Infinity,
+): Event<void> {
+  validateSchedule(schedule);
+
+  const follower: Process = function* (sim) {
+    apply(sim, scheduleValue(schedule, sim.currentTime));
+
+    while (true) {
+      const change = nextScheduleChange(schedule, sim.currentTime);
+
+      if (change >= until) {
+        return;
+      }
+
+      yield* timeout(sim, change - sim.currentTime);
+      apply(sim, scheduleValue(schedule, sim.currentTime));
+    }
+  };
+
+  return spawn(sim, follower);
+}
+
+/**
+ * Makes the capacity of a resource follow a calendar schedule
+ * (e.g. the number of operators of each shift), see setCapacity().
+ * Returns the handle of the follower: cancel it with cancelEvent() to stop.
+ */
+export function scheduleCapacity(
+  sim: Simulation,
+  resource: Resource,
+  schedule: CalendarSchedule,
+  until: number = Infinity,
+): Event<void> {
+  return followSchedule(
+    sim,
+    schedule,
+    (sim, capacity) => setCapacity(sim, resource, capacity),
+    until,
+  );
+}
+
+/**
+ * Returns the offset of a time within its cycle of a calendar schedule.
+ */
+function schedulePhase(schedule: CalendarSchedule, time: number): number {
+  const offset = (time - (schedule.origin ?? 0)) % schedule.period;
+
+  return (offset < 0) ? offset + schedule.period : offset;
+}
+
+/**
+ * Checks the period and windows of a calendar schedule.
+ */
+function validateSchedule(schedule: CalendarSchedule): void {
+  if (!(schedule.period > 0)) {
+    throw RangeError(`Invalid schedule period: ${schedule.period}`);
+  }
+
+  for (const { from, to } of schedule.windows) {
+    if (!(from >= 0 && from < to && to <= schedule.period)) {
+      throw RangeError(
+        `Invalid schedule window: [${from}, ${to}) ` +
+          `(period: ${schedule.period})`,
+      );
+    }
+  }
+}
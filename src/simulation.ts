@@ -1,104 +1,408 @@
 import {
+  AsyncProcess,
+  AsyncProcessState,
+  ConditionValue,
+  ErrorPolicy,
   Event,
+  EventPriority,
   EventState,
+  LogEntry,
   Process,
+  ProcessRegistry,
   ProcessState,
   ProcessStep,
+  RunSimulationOptions,
+  RunState,
   Simulation,
+  SimulationOptions,
   SimulationStats,
+  TraceKind,
 } from "./model.ts";
+import { summarizeLevel, summarizeSink, summarizeTally } from "./monitors.ts";
+import { createHeap, peekHeap, popHeap, pushHeap } from "./queue.ts";
+import {
+  createRandomStream,
+  createSeed,
+  getStream,
+  randomId,
+} from "./random.ts";
+import { emitTrace } from "./trace.ts";
 
 /**
  * Initializes a new simulation instance with:
  * - currentTime set to 0 (starting point of simulation)
  * - Empty events array (no scheduled events)
+ * - Empty timeline (future event list)
+ * - Random number streams seeded from the optional seed (defaults to a random seed)
+ * - The optional error policy (defaults to propagating errors to waiting processes)
+ * - No monitors (created on first use)
+ * - The optional process registry (defaults to an empty registry)
+ * - An empty decision log
  */
-export function initializeSimulation(): Simulation {
+export function initializeSimulation<T = unknown>(
+  options: SimulationOptions<T> = {},
+): Simulation {
+  const seed = options.seed ?? createSeed();
+
   return {
     currentTime: 0,
     events: [],
     state: {},
+    timeline: createHeap(compareEvents),
+    sequence: 0,
+    index: new Map(),
+    seed,
+    random: createRandomStream(seed),
+    streams: {},
+    errorPolicy: options.errorPolicy ?? ErrorPolicy.Propagate,
+    waiters: {},
+    tallies: {},
+    levels: {},
+    sinks: {},
+    resources: [],
+    registry: (options.registry ?? {}) as ProcessRegistry,
+    steps: 0,
+    log: [],
+    processing: false,
   };
 }
 
 /**
- * Runs the discrete-event simulation until no more events remain to process.
+ * Ordering of the future event list, and of store requests.
+ * Earliest scheduledAt first, then lowest priority value first,
+ * then lowest insertion sequence first.
+ * The resulting order is total, so it doesn't depend on sort stability.
+ */
+export function compareEvents<T>(a: Event<T>, b: Event<T>): number {
+  return (a.scheduledAt - b.scheduledAt) ||
+    ((a.priority ?? EventPriority.Normal) -
+      (b.priority ?? EventPriority.Normal)) ||
+    ((a.sequence ?? 0) - (b.sequence ?? 0));
+}
+
+/**
+ * Runs the discrete-event simulation until no more events remain to process,
+ * or until the optional `until` time is reached.
+ * Emits trace records through the optional tracing hook (see trace.ts).
  * The simulation processes events in chronological order (earliest first).
+ * The simulation can be resumed afterwards with another call.
  * Returns statistics about the simulation run.
  */
-export function runSimulation(sim: Simulation): SimulationStats {
-  const start = performance.now();
+export function runSimulation(
+  sim: Simulation,
+  options: RunSimulationOptions = {},
+): SimulationStats {
+  const run = beginRun(sim, options);
+
+  try {
+    // Process events one by one until the horizon is reached
+    while (peek(sim) < run.until) {
+      countStep(run, step(sim));
+    }
+  } finally {
+    sim.trace = run.trace;
+  }
 
-  while (true) {
-    // Get all scheduled events that haven't been processed yet,
-    // sorted in descending order so we can efficiently pop the earliest event
-    const eventsTodo = sim.events.filter((event) =>
-      (event.scheduledAt >= sim.currentTime) &&
-      (event.status === EventState.Scheduled)
-    ).sort((a, b) => b.scheduledAt - a.scheduledAt);
+  return endRun(sim, run);
+}
 
-    const event = eventsTodo.pop();
+/**
+ * Runs the simulation like runSimulation(), with asynchronous processes
+ * (see AsyncProcess): the run awaits each step of an asynchronous process
+ * (e.g. reading a file, querying a service) before processing the next event,
+ * so events are still processed one at a time, in chronological order.
+ * Synchronous processes run as usual.
+ * The simulation must not be stepped by other code while the run is pending.
+ * Returns statistics about the simulation run.
+ */
+export async function runSimulationAsync(
+  sim: Simulation,
+  options: RunSimulationOptions = {},
+): Promise<SimulationStats> {
+  const run = beginRun(sim, options);
 
-    if (!event) {
-      break; // No more events to process
+  try {
+    // Process events one by one until the horizon is reached
+    while (peek(sim) < run.until) {
+      countStep(run, await stepAsync(sim));
     }
+  } finally {
+    sim.trace = run.trace;
+  }
 
-    // Advance simulation time to this event's scheduled time
-    sim.currentTime = event.scheduledAt;
-
-    // Process the event
-    const { updated, state, next } = handleEvent(sim, event);
+  return endRun(sim, run);
+}
 
-    // Update the event's current state
-    sim.state[updated.id] = state;
+/**
+ * Starts a run of the simulation (see runSimulation()):
+ * - Checks its horizon
+ * - Installs its tracing hook, if any (to restore from `trace` afterwards)
+ * - Starts its counters
+ */
+export function beginRun(
+  sim: Simulation,
+  options: RunSimulationOptions,
+): RunState {
+  const until = options.until ?? Infinity;
 
-    // Update the simulation's events queue
-    sim.events = sim.events.map((previous) =>
-      (previous.id === event.id) ? updated : previous
+  if (until < sim.currentTime) {
+    throw RangeError(
+      `Simulation run until a point in time in the past: ${until} ` +
+        `(current time: ${sim.currentTime})`,
     );
+  }
 
-    // Schedule the next event if yielded
-    if (next) {
-      sim.events = scheduleEvent(sim, next);
-    }
+  // Trace the run with the given hook, if any
+  const trace = sim.trace;
+  sim.trace = options.trace ?? trace;
+
+  return {
+    start: performance.now(),
+    until,
+    trace,
+    eventsProcessed: 0,
+    finished: 0,
+    totalWait: 0,
+  };
+}
+
+/**
+ * Counts a processed event in the statistics of a run.
+ * Only events whose process completed have a finishing time
+ * (not paused processes, see continueProcess()).
+ */
+export function countStep(run: RunState, updated?: Event<unknown>): void {
+  run.eventsProcessed += 1;
+
+  // Measure how long the finished events took since they were fired
+  if (updated?.finishedAt !== undefined) {
+    run.finished += 1;
+    run.totalWait += updated.finishedAt - updated.firedAt;
+  }
+}
+
+/**
+ * Ends a run of the simulation, leaving it at the horizon of the run.
+ * Returns statistics about the run.
+ */
+export function endRun(sim: Simulation, run: RunState): SimulationStats {
+  // Leave the simulation at the horizon so it can be resumed from there
+  if (Number.isFinite(run.until)) {
+    sim.currentTime = run.until;
   }
 
   const end = performance.now();
 
   return {
-    duration: end - start, // Return real-world time taken for simulation
+    duration: end - run.start, // Return real-world time taken for simulation
+    eventsProcessed: run.eventsProcessed,
+    meanWait: (run.finished > 0) ? run.totalWait / run.finished : 0,
+    tallies: Object.fromEntries(
+      Object.entries(sim.tallies).map((
+        [name, tally],
+      ) => [name, summarizeTally(tally)]),
+    ),
+    levels: Object.fromEntries(
+      Object.entries(sim.levels).map((
+        [name, monitor],
+      ) => [name, summarizeLevel(sim, monitor)]),
+    ),
+    sinks: Object.fromEntries(
+      Object.entries(sim.sinks).map((
+        [name, sink],
+      ) => [name, summarizeSink(sim, sink)]),
+    ),
   };
 }
 
+/**
+ * Processes exactly one event: the earliest event of the timeline.
+ * Advances the simulation time to this event's scheduled time.
+ * Returns the processed event as updated by its process,
+ * or undefined if there was no event left to process.
+ */
+export function step(sim: Simulation): Event<unknown> | undefined {
+  const event = takeEvent(sim);
+
+  if (!event) {
+    return undefined; // No more events to process
+  }
+
+  try {
+    // Process the event, handling the failure of its process
+    return completeEvent(sim, handleFailure(sim, event));
+  } finally {
+    sim.processing = false;
+  }
+}
+
+/**
+ * Processes exactly one event like step(), awaiting its process
+ * if it is asynchronous (see runSimulationAsync()).
+ * Returns the processed event as updated by its process,
+ * or undefined if there was no event left to process.
+ */
+export async function stepAsync(
+  sim: Simulation,
+): Promise<Event<unknown> | undefined> {
+  const event = takeEvent(sim);
+
+  if (!event) {
+    return undefined; // No more events to process
+  }
+
+  try {
+    // Process the event, handling the failure of its process
+    return completeEvent(sim, await handleFailureAsync(sim, event));
+  } finally {
+    sim.processing = false;
+  }
+}
+
+/**
+ * Takes the earliest event out of the timeline to process it.
+ * Advances the simulation time to this event's scheduled time.
+ * Returns undefined if there is no event left to process.
+ */
+function takeEvent(sim: Simulation): Event<unknown> | undefined {
+  // Get the earliest scheduled event from the future event list
+  const event = nextEvent(sim);
+
+  if (!event) {
+    return undefined;
+  }
+
+  // Take it out of the future event list
+  popHeap(sim.timeline);
+  sim.steps += 1;
+
+  // Advance simulation time to this event's scheduled time
+  sim.currentTime = event.scheduledAt;
+
+  // Operations applied from now on are consequences of this event
+  // (until the processing ends, see step())
+  sim.processing = true;
+
+  if (!sim.state[event.id]) {
+    emitTrace(sim, TraceKind.Start, event);
+  }
+
+  return event;
+}
+
+/**
+ * Records the outcome of a processed event.
+ * Returns the processed event as updated by its process.
+ */
+function completeEvent(
+  sim: Simulation,
+  { updated, state, next }: ProcessStep<unknown>,
+): Event<unknown> {
+  if (state) {
+    emitTrace(sim, TraceKind.Yield, updated, {
+      scheduledAt: updated.scheduledAt,
+      next: next?.id,
+    });
+  } else {
+    emitTrace(sim, TraceKind.Finish, updated, { status: updated.status });
+  }
+
+  // Update the event's current state, dropping it once the process has completed
+  if (state) {
+    sim.state[updated.id] = state;
+  } else {
+    delete sim.state[updated.id];
+  }
+
+  // Schedule the next event if yielded,
+  // ahead of the continuation of the yielding process
+  if (next) {
+    scheduleEvent(sim, next);
+  }
+
+  // Either queue the continuation or record the finished event
+  if (updated.status === EventState.Scheduled) {
+    scheduleEvent(sim, updated);
+  } else {
+    recordEvent(sim, updated);
+  }
+
+  // Resume the processes waiting for the completion of this event
+  if (
+    !state &&
+    (updated.status === EventState.Finished ||
+      updated.status === EventState.Failed)
+  ) {
+    for (const waiter of sim.waiters[updated.id] ?? []) {
+      resumeProcess(sim, waiter);
+    }
+
+    delete sim.waiters[updated.id];
+  }
+
+  return updated;
+}
+
+/**
+ * Returns the time of the next event to process,
+ * or Infinity if there is no event left to process.
+ */
+export function peek(sim: Simulation): number {
+  return nextEvent(sim)?.scheduledAt ?? Infinity;
+}
+
+/**
+ * Returns the earliest event of the timeline without removing it.
+ * Discards entries superseded by a later schedule of the same event on the way.
+ */
+function nextEvent(sim: Simulation): Event<unknown> | undefined {
+  let event = peekHeap(sim.timeline);
+
+  while (event && sim.events[sim.index.get(event.id) ?? -1] !== event) {
+    popHeap(sim.timeline);
+    event = peekHeap(sim.timeline);
+  }
+
+  return event;
+}
+
 /**
  * Creates a new event with:
- * - Unique ID
+ * - Unique ID (reproducible, drawn from the simulation's "event-ids" stream)
  * - Initial state set to "Fired"
  * - Timestamps for when it was created and scheduled
- * - Optional callback process (defaults to empty generator)
+ * - Optional callback process (defaults to idle())
  * - Optional item to carry (defaults to undefined)
+ * - Optional priority (defaults to EventPriority.Normal)
  */
 export function createEvent<T>(
   sim: Simulation,
   scheduledAt: number,
-  callback?: Process<T>,
+  callback?: Process<T> | AsyncProcess<T>,
   item?: T,
+  priority: number = EventPriority.Normal,
 ): Event<T> {
   return {
-    id: crypto.randomUUID(),
+    id: randomId(getStream(sim, "event-ids")),
     status: EventState.Fired,
     firedAt: sim.currentTime,
     scheduledAt,
-    callback: callback ?? function* () {
-      yield;
-    },
+    callback: callback ?? idle,
     item,
+    priority,
   };
 }
 
+/**
+ * Process doing nothing, the default process of events.
+ */
+export function* idle<T>(): ProcessState<T> {}
+
 /**
  * Schedules an event for future processing in the simulation.
  * Validates that the event isn't scheduled in the past.
+ * Stamps the event with the next insertion sequence and pushes it in the timeline.
+ * Scheduling an event ID again supersedes its previous schedule.
  * Returns updated events array with the new scheduled event.
  */
 export function scheduleEvent<T>(
@@ -112,15 +416,218 @@ export function scheduleEvent<T>(
     );
   }
 
-  return [
-    ...sim.events,
-    { ...event, status: EventState.Scheduled } as Event<unknown>,
-  ];
+  return logOperation(
+    sim,
+    { operation: "schedule", event: event as Event<unknown> },
+    () => {
+      const scheduled = {
+        ...event,
+        status: EventState.Scheduled,
+        sequence: sim.sequence++,
+      } as Event<unknown>;
+
+      pushHeap(sim.timeline, scheduled);
+      emitTrace(sim, TraceKind.Schedule, scheduled, {
+        scheduledAt: scheduled.scheduledAt,
+      });
+
+      return recordEvent(sim, scheduled);
+    },
+  );
+}
+
+/**
+ * Records the latest version of an event in the events history.
+ * Replaces the previous record of the same event ID, or appends a new one.
+ * Returns the (mutated in place) events array.
+ */
+export function recordEvent<T>(
+  sim: Simulation,
+  event: Event<T>,
+): Event<unknown>[] {
+  const position = sim.index.get(event.id);
+
+  if (position === undefined) {
+    sim.index.set(event.id, sim.events.length);
+    sim.events.push(event as Event<unknown>);
+  } else {
+    sim.events[position] = event as Event<unknown>;
+  }
+
+  return sim.events;
+}
+
+/**
+ * Resumes a paused process at the current time.
+ * Reschedules the latest record of its event, superseding any pending schedule,
+ * optionally with an interrupt to throw into the process.
+ * An interrupt still pending delivery is kept.
+ * Returns the updated events array.
+ */
+export function resumeProcess(
+  sim: Simulation,
+  id: string,
+  interrupt?: Error,
+): Event<unknown>[] {
+  const current = sim.events[sim.index.get(id) ?? -1];
+
+  if (!current) {
+    throw Error(`Unknown process: ${id}`);
+  }
+
+  emitTrace(sim, TraceKind.Resume, current, { scheduledAt: sim.currentTime });
+
+  return scheduleEvent(sim, {
+    ...current,
+    scheduledAt: sim.currentTime,
+    interrupt: interrupt ?? current.interrupt,
+  });
+}
+
+/**
+ * Interrupt-style signal thrown into a paused process (see interrupt()).
+ * The process can catch it where it yielded, and recover.
+ */
+export class Interrupt extends Error {
+  constructor(cause?: unknown, message: string = "Process interrupted") {
+    super(message, { cause });
+    this.name = "Interrupt";
+  }
+}
+
+/**
+ * Error thrown out of runSimulation() when the process of an event fails
+ * and the error policy aborts the run (see ErrorPolicy).
+ * The original error is available as its cause.
+ */
+export class SimulationError extends Error {
+  /** Stack of the failed process when it threw the original error */
+  processStack?: string;
+
+  constructor(
+    /** ID of the event whose process failed */
+    public eventId: string,
+    /** Simulation time at which the process failed */
+    public time: number,
+    cause: unknown,
+  ) {
+    super(
+      `Process of event ${eventId} failed at time ${time}: ` +
+        ((cause instanceof Error) ? cause.message : String(cause)),
+      { cause },
+    );
+    this.name = "SimulationError";
+    this.processStack = (cause instanceof Error) ? cause.stack : undefined;
+  }
+}
+
+/**
+ * Interrupts a paused process (waiting in a timeout, a store get, etc).
+ * Resumes it at the current time by throwing an Interrupt with the given cause
+ * at the point where it yielded. Pending requests of the process are withdrawn.
+ * Returns the updated events array.
+ */
+export function interrupt(
+  sim: Simulation,
+  id: string,
+  cause?: unknown,
+): Event<unknown>[] {
+  if (!sim.state[id]) {
+    throw Error(`Process not started or already completed: ${id}`);
+  }
+
+  return logOperation(
+    sim,
+    { operation: "interrupt", id, cause },
+    () => resumeProcess(sim, id, new Interrupt(cause)),
+  );
+}
+
+/**
+ * Cancels a scheduled event, or a paused process.
+ * The event will not be processed, and its process will never be resumed:
+ * it is closed (running its finally blocks, withdrawing its pending requests).
+ * Returns the updated events array with the cancelled event.
+ */
+export function cancelEvent(
+  sim: Simulation,
+  id: string,
+): Event<unknown>[] {
+  const current = sim.events[sim.index.get(id) ?? -1];
+
+  if (!current) {
+    throw Error(`Unknown event: ${id}`);
+  }
+
+  const generator = sim.state[id];
+
+  if (
+    current.status === EventState.Cancelled ||
+    current.status === EventState.Failed ||
+    (current.status === EventState.Finished && !generator)
+  ) {
+    throw Error(`Event already ${current.status.toLowerCase()}: ${id}`);
+  }
+
+  return logOperation(sim, { operation: "cancel", id }, () => {
+    // Close the process, its superseded schedule in the timeline will be skipped
+    delete sim.state[id];
+    generator?.return(undefined);
+    emitTrace(sim, TraceKind.Finish, current, {
+      status: EventState.Cancelled,
+    });
+
+    return recordEvent(sim, {
+      ...current,
+      status: EventState.Cancelled,
+      finishedAt: sim.currentTime,
+    });
+  });
+}
+
+/**
+ * Applies an operation, recording it in the decision log
+ * if it comes from outside the processes.
+ * Operations applied by a process or by another operation aren't recorded,
+ * as replaying their cause applies them again.
+ */
+function logOperation<R>(
+  sim: Simulation,
+  entry: Pick<LogEntry, "operation" | "event" | "id" | "cause">,
+  apply: () => R,
+): R {
+  if (sim.processing) {
+    return apply();
+  }
+
+  const step = sim.steps;
+  const time = sim.currentTime;
+  let result: R;
+
+  sim.processing = true;
+
+  try {
+    result = apply();
+  } finally {
+    sim.processing = false;
+  }
+
+  sim.log.push({
+    ...entry,
+    step,
+    time,
+    random: structuredClone(sim.random),
+    streams: structuredClone(sim.streams),
+  });
+
+  return result;
 }
 
 /**
  * Processes an event by executing its generator function.
+ * Resumes the process with the event's pending interrupt, if any.
  * Handles both immediate completion and yielding of new events.
+ * Throws an error if the process is asynchronous (see handleEventAsync()).
  * Returns the completed event with updated status and timestamps.
  */
 export function handleEvent<T>(
@@ -130,8 +637,60 @@ export function handleEvent<T>(
   // Get the generator - either from previous partial execution or a new one
   const generator = sim.state[event.id] as ProcessState<T> ??
     event.callback(sim, event);
-  // Execute next step of the generator
-  const { value, done } = generator.next();
+
+  if (Symbol.asyncIterator in generator) {
+    throw Error(
+      `Asynchronous process in a synchronous run: ${event.id} ` +
+        `(see runSimulationAsync())`,
+    );
+  }
+
+  // Execute next step of the generator,
+  // throwing the pending interrupt into it instead if there is one
+  const result = event.interrupt
+    ? generator.throw(event.interrupt)
+    : generator.next();
+
+  return continueProcess(sim, event, generator, result);
+}
+
+/**
+ * Processes an event like handleEvent(), awaiting the next step
+ * of its process if it is asynchronous.
+ */
+export async function handleEventAsync<T>(
+  sim: Simulation,
+  event: Event<T>,
+): Promise<ProcessStep<T>> {
+  // Get the generator - either from previous partial execution or a new one
+  const generator = sim.state[event.id] as
+    | ProcessState<T>
+    | AsyncProcessState<T> ??
+    event.callback(sim, event);
+
+  // Execute (and await) next step of the generator,
+  // throwing the pending interrupt into it instead if there is one
+  const result =
+    await (event.interrupt
+      ? generator.throw(event.interrupt)
+      : generator.next());
+
+  return continueProcess(sim, event, generator, result);
+}
+
+/**
+ * Builds the outcome of a step of the process of an event,
+ * from the result of its generator.
+ */
+function continueProcess<T>(
+  sim: Simulation,
+  event: Event<T>,
+  generator: ProcessState<T> | AsyncProcessState<T>,
+  { value, done }: IteratorResult<Event<T> | undefined, T | undefined | void>,
+): ProcessStep<T> {
+  // The process carries on: drop the pending interrupt, and when it
+  // was paused, the time of its previous step
+  const { interrupt: _interrupt, finishedAt: _finishedAt, ...current } = event;
 
   // If generator yielded a value (new event to schedule) and isn't done
   if (!done && value) {
@@ -141,7 +700,7 @@ export function handleEvent<T>(
     // Return the new event to be scheduled
     return {
       updated: {
-        ...event,
+        ...current,
         scheduledAt: value.scheduledAt,
       },
       state: generator,
@@ -151,17 +710,83 @@ export function handleEvent<T>(
 
   // The event has been fully handled
   // Return completed event with updated metadata
+  // Keep the process state only if it's paused rather than completed
+  // (no finishing time then, it hasn't finished yet)
   // There is no next event to process
   return {
     updated: {
-      ...event,
-      finishedAt: sim.currentTime,
+      ...current,
+      ...(done ? { finishedAt: sim.currentTime } : {}),
       status: EventState.Finished,
+      value: done ? value as T : undefined,
     },
-    state: generator,
+    state: done ? undefined : generator,
   };
 }
 
+/**
+ * Processes an event like handleEvent(), catching the error thrown by its process
+ * (see failEvent()).
+ */
+function handleFailure<T>(
+  sim: Simulation,
+  event: Event<T>,
+): ProcessStep<T> {
+  try {
+    return handleEvent(sim, event);
+  } catch (error) {
+    return failEvent(sim, event, error);
+  }
+}
+
+/**
+ * Processes an event like handleFailure(), awaiting its process
+ * if it is asynchronous.
+ */
+async function handleFailureAsync<T>(
+  sim: Simulation,
+  event: Event<T>,
+): Promise<ProcessStep<T>> {
+  try {
+    return await handleEventAsync(sim, event);
+  } catch (error) {
+    return failEvent(sim, event, error);
+  }
+}
+
+/**
+ * Marks the event as failed with its error, then applies the error policy:
+ * either returns the failed event, for the waiting processes to rethrow the error,
+ * or records it and aborts the run with a SimulationError.
+ */
+function failEvent<T>(
+  sim: Simulation,
+  event: Event<T>,
+  error: unknown,
+): ProcessStep<T> {
+  const { interrupt: _interrupt, ...current } = event;
+  const failed = {
+    ...current,
+    finishedAt: sim.currentTime,
+    status: EventState.Failed,
+    error,
+  };
+
+  const abort = sim.errorPolicy === ErrorPolicy.Abort ||
+    (sim.errorPolicy === ErrorPolicy.Propagate &&
+      !sim.waiters[event.id]?.length);
+
+  if (abort) {
+    // Leave the simulation consistent before stopping the run
+    delete sim.state[event.id];
+    recordEvent(sim, failed);
+
+    throw new SimulationError(event.id, sim.currentTime, error);
+  }
+
+  return { updated: failed };
+}
+
 /**
  * Generator function that creates and schedules a timeout event.
  * This is a utility for creating delayed events in the simulation.
@@ -170,7 +795,7 @@ export function handleEvent<T>(
 export function* timeout<T>(
   sim: Simulation,
   duration: number,
-  callback?: Process<T>,
+  callback?: Process<T> | AsyncProcess<T>,
   item?: T,
 ): ProcessState<T> {
   // Fire an event that will be scheduled after specified duration
@@ -184,3 +809,174 @@ export function* timeout<T>(
   // Yield continuation (allowing other code to run until timeout completes)
   yield timeoutEvent;
 }
+
+/**
+ * Creates and schedules a new process starting at the current time,
+ * with an optional item to carry.
+ * Returns its event, a handle to wait for its completion with join().
+ */
+export function spawn<T>(
+  sim: Simulation,
+  process: Process<T> | AsyncProcess<T>,
+  item?: T,
+): Event<T> {
+  const event = createEvent(sim, sim.currentTime, process, item);
+  sim.events = scheduleEvent(sim, event);
+
+  return event;
+}
+
+/**
+ * Blocking operation that waits for the completion of a process
+ * (see spawn()).
+ * Rethrows the error thrown by the process if it failed.
+ * Returns the value returned by the process.
+ */
+export function* join<T, U>(
+  sim: Simulation,
+  event: Event<T>,
+  handle: Event<U>,
+): Generator<undefined, U | undefined, void> {
+  yield* allOf(sim, event, [handle]);
+
+  return sim.events[sim.index.get(handle.id) ?? -1].value as U | undefined;
+}
+
+/**
+ * Blocking operation that waits until all the given events have completed.
+ * Schedules the given events that haven't been scheduled yet.
+ * An event completes once its process has returned; events whose process
+ * only pauses (or that are cancelled) never complete.
+ * Rethrows the error of a failed event.
+ * Returns the values of all the events.
+ * Blocks the calling process: to nest conditions, wait for a composite event
+ * instead (see allOfEvent()).
+ */
+export function* allOf<T, U>(
+  sim: Simulation,
+  event: Event<T>,
+  events: Event<U>[],
+): Generator<undefined, ConditionValue, void> {
+  return yield* waitForEvents(
+    sim,
+    event,
+    events,
+    (completed) => completed === events.length,
+  );
+}
+
+/**
+ * Blocking operation that waits until any of the given events has completed.
+ * Schedules the given events that haven't been scheduled yet.
+ * An event completes once its process has returned; events whose process
+ * only pauses (or that are cancelled) never complete.
+ * Rethrows the error of a failed event.
+ * Returns the values of the events completed by then.
+ * Blocks the calling process: to nest conditions, wait for a composite event
+ * instead (see anyOfEvent()).
+ */
+export function* anyOf<T, U>(
+  sim: Simulation,
+  event: Event<T>,
+  events: Event<U>[],
+): Generator<undefined, ConditionValue, void> {
+  return yield* waitForEvents(
+    sim,
+    event,
+    events,
+    (completed) => completed > 0 || events.length === 0,
+  );
+}
+
+/**
+ * Creates and schedules a composite event, completing once all the given
+ * events have completed (see allOf()), with their values as its value.
+ * Can be waited for like any event: with join(), or nested in other
+ * conditions (e.g. anyOf(sim, event, [allOfEvent(sim, [a, b]), deadline])).
+ */
+export function allOfEvent<U>(
+  sim: Simulation,
+  events: Event<U>[],
+): Event<ConditionValue> {
+  return spawn(sim, function* allOfEvent(sim, event) {
+    return yield* allOf(sim, event, events);
+  });
+}
+
+/**
+ * Creates and schedules a composite event, completing once any of the given
+ * events has completed (see anyOf()), with their values as its value.
+ * Can be waited for like any event: with join(), or nested in other
+ * conditions (e.g. allOf(sim, event, [anyOfEvent(sim, [a, b]), c])).
+ */
+export function anyOfEvent<U>(
+  sim: Simulation,
+  events: Event<U>[],
+): Event<ConditionValue> {
+  return spawn(sim, function* anyOfEvent(sim, event) {
+    return yield* anyOf(sim, event, events);
+  });
+}
+
+/**
+ * Waits for the completion of events, until the condition on the number
+ * of completed events holds.
+ * Registers the waiting process in the simulation waiters meanwhile.
+ * Returns the values of the completed events.
+ */
+function* waitForEvents<T, U>(
+  sim: Simulation,
+  event: Event<T>,
+  events: Event<U>[],
+  condition: (completed: number) => boolean,
+): Generator<undefined, ConditionValue, void> {
+  // Schedule the events that haven't been yet
+  for (const other of events) {
+    if (!sim.index.has(other.id)) {
+      sim.events = scheduleEvent(sim, other);
+    }
+  }
+
+  try {
+    for (const other of events) {
+      sim.waiters[other.id] = [...(sim.waiters[other.id] ?? []), event.id];
+    }
+
+    while (true) {
+      const completed = events
+        .map((other) => sim.events[sim.index.get(other.id) ?? -1])
+        .filter((other) =>
+          (other.status === EventState.Finished && !sim.state[other.id]) ||
+          other.status === EventState.Failed
+        );
+
+      // Propagate the failure of an event to the waiting process
+      const failed = completed.find((other) =>
+        other.status === EventState.Failed
+      );
+      if (failed) {
+        throw failed.error;
+      }
+
+      if (condition(completed.length)) {
+        return Object.fromEntries(
+          completed.map((other) => [other.id, other.value ?? other.item]),
+        );
+      }
+
+      // Yield control until the completion of one of the events
+      yield;
+    }
+  } finally {
+    // Stop waiting for the events, completed or not
+    for (const other of events) {
+      const waiters = sim.waiters[other.id]?.filter((id) => id !== event.id);
+
+      if (waiters?.length) {
+        sim.waiters[other.id] = waiters;
+      } else {
+        delete sim.waiters[other.id];
+      }
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  Event,
+  ProcessRegistry,
+  SerializedEvent,
+  Simulation,
+  Snapshot,
+} from "./model.ts";
+import {
+  cancelEvent,
+  idle,
+  initializeSimulation,
+  interrupt,
+  scheduleEvent,
+  step,
+} from "./simulation.ts";
+
+/**
+ * Version of the snapshot format.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Serializes an event, referencing its process by name in the registry
+ * (no name for the idle() process).
+ * Its item must be serializable to JSON.
+ */
+export function serializeEvent(
+  registry: ProcessRegistry,
+  event: Event<unknown>,
+): SerializedEvent {
+  const { callback, ...serialized } = event;
+
+  if (callback === idle) {
+    return serialized;
+  }
+
+  const process = Object.keys(registry).find((name) =>
+    registry[name] === callback
+  );
+
+  if (process === undefined) {
+    throw Error(`Event process not found in the registry: ${event.id}`);
+  }
+
+  return { ...serialized, process };
+}
+
+/**
+ * Deserializes an event, looking its process up by name in the registry.
+ */
+export function deserializeEvent(
+  registry: ProcessRegistry,
+  event: SerializedEvent,
+): Event<unknown> {
+  const { process, ...deserialized } = event;
+
+  if (process === undefined) {
+    return { ...deserialized, callback: idle };
+  }
+
+  if (!registry[process]) {
+    throw Error(`Unknown process in the registry: ${process}`);
+  }
+
+  return { ...deserialized, callback: registry[process] };
+}
+
+/**
+ * Takes a checkpoint of a simulation, as JSON.
+ * Generators can't be serialized, so the snapshot holds the seed and the
+ * decision log of the simulation, from which restore() replays it.
+ * Events scheduled from outside the processes must carry a process
+ * of the simulation's registry (or none), and items serializable to JSON.
+ * Note: random numbers drawn from outside the processes must be used
+ * by an operation (e.g. scheduling an event), to be replayed.
+ */
+export function snapshot(sim: Simulation): string {
+  const data: Snapshot = {
+    version: SNAPSHOT_VERSION,
+    seed: sim.seed,
+    errorPolicy: sim.errorPolicy,
+    currentTime: sim.currentTime,
+    steps: sim.steps,
+    events: sim.events.length,
+    log: sim.log.map((entry) =>
+      entry.event
+        ? { ...entry, event: serializeEvent(sim.registry, entry.event) }
+        : { ...entry, event: undefined }
+    ),
+  };
+
+  return JSON.stringify(data);
+}
+
+/**
+ * Reconstructs a runnable simulation from a snapshot (see snapshot()).
+ * Replays the decision log from the seed with the given registry,
+ * whose processes must behave like those of the original simulation
+ * (e.g. built by the same factory, with fresh stores and resources).
+ * Throws an error if the replay diverges from the original run.
+ */
+export function restore<T>(
+  json: string,
+  registry: ProcessRegistry<T>,
+): Simulation {
+  const data = JSON.parse(json) as Snapshot;
+
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw Error(`Unsupported snapshot version: ${data.version}`);
+  }
+
+  const sim = initializeSimulation({
+    seed: data.seed,
+    errorPolicy: data.errorPolicy,
+    registry,
+  });
+
+  for (const entry of data.log) {
+    replayUntil(sim, entry.step);
+    sim.currentTime = entry.time;
+
+    switch (entry.operation) {
+      case "schedule":
+        scheduleEvent(sim, deserializeEvent(sim.registry, entry.event!));
+        break;
+      case "cancel":
+        cancelEvent(sim, entry.id!);
+        break;
+      case "interrupt":
+        interrupt(sim, entry.id!, entry.cause);
+        break;
+    }
+
+    // Restore the random draws made around the operation
+    sim.random = structuredClone(entry.random);
+    sim.streams = structuredClone(entry.streams);
+
+    const replayed = sim.log[sim.log.length - 1];
+    replayed.random = entry.random;
+    replayed.streams = entry.streams;
+  }
+
+  replayUntil(sim, data.steps);
+  sim.currentTime = data.currentTime;
+
+  if (sim.events.length !== data.events) {
+    throw Error(
+      `Snapshot replay diverged: ${sim.events.length} events ` +
+        `instead of ${data.events}`,
+    );
+  }
+
+  return sim;
+}
+
+/**
+ * Processes events until the given number of events has been processed.
+ */
+function replayUntil(sim: Simulation, steps: number): void {
+  while (sim.steps < steps) {
+    if (!step(sim)) {
+      throw Error(
+        `Snapshot replay diverged: no event left after ${sim.steps} steps ` +
+          `instead of ${steps}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  AsyncProcess,
+  Event,
+  Process,
+  Simulation,
+  TraceFilter,
+  TraceKind,
+  TraceRecord,
+  TraceSink,
+} from "./model.ts";
+
+/**
+ * Columns of the CSV export of trace records, in order.
+ */
+export const TRACE_COLUMNS: (keyof TraceRecord)[] = [
+  "time",
+  "kind",
+  "id",
+  "process",
+  "scheduledAt",
+  "status",
+  "next",
+  "item",
+  "resource",
+  "queue",
+];
+
+/**
+ * Returns the name of a process: its name in the simulation's registry,
+ * or its function name ("anonymous" if it has none).
+ */
+export function processName<T>(
+  sim: Simulation,
+  process: Process<T> | AsyncProcess<T>,
+): string {
+  return Object.keys(sim.registry).find((name) =>
+    sim.registry[name] === process
+  ) ?? (process.name || "anonymous");
+}
+
+/**
+ * Emits a trace record about the process of an event
+ * through the simulation's tracing hook, if any and if the filter keeps it.
+ */
+export function emitTrace<T>(
+  sim: Simulation,
+  kind: TraceKind,
+  event: Event<T>,
+  fields: Omit<TraceRecord, "time" | "kind" | "id" | "process"> = {},
+): void {
+  if (!sim.trace) {
+    return;
+  }
+
+  const record: TraceRecord = {
+    time: sim.currentTime,
+    kind,
+    id: event.id,
+    process: processName(sim, event.callback),
+    ...fields,
+  };
+
+  if (matchesTrace(record, sim.trace.filter)) {
+    sim.trace.sink.write(record);
+  }
+}
+
+/**
+ * Whether a trace record matches every criterion of a filter.
+ */
+export function matchesTrace(
+  record: TraceRecord,
+  filter: TraceFilter = {},
+): boolean {
+  return (!filter.events || filter.events.includes(record.id)) &&
+    (!filter.processes || filter.processes.includes(record.process)) &&
+    (!filter.kinds || filter.kinds.includes(record.kind));
+}
+
+/**
+ * Creates a sink keeping the trace records in memory.
+ */
+export function createMemorySink(): TraceSink & { records: TraceRecord[] } {
+  const records: TraceRecord[] = [];
+
+  return {
+    records,
+    write: (record) => records.push(record),
+  };
+}
+
+/**
+ * Creates a sink formatting each trace record as a line of JSON
+ * (JSON Lines), handed to the given writer (e.g. console.log, a file).
+ */
+export function createJsonLinesSink(write: (line: string) => void): TraceSink {
+  return {
+    write: (record) => write(JSON.stringify(record)),
+  };
+}
+
+/**
+ * Creates a sink formatting each trace record as a CSV row
+ * handed to the given writer, preceded by a header row.
+ */
+export function createCsvSink(write: (line: string) => void): TraceSink {
+  let header = false;
+
+  return {
+    write: (record) => {
+      if (!header) {
+        write(TRACE_COLUMNS.join(","));
+        header = true;
+      }
+
+      write(csvRow(record));
+    },
+  };
+}
+
+/**
+ * Formats trace records as JSON Lines.
+ */
+export function toJsonLines(records: TraceRecord[]): string {
+  return records.map((record) => JSON.stringify(record) + "\n").join("");
+}
+
+/**
+ * Formats trace records as CSV, with a header row.
+ * Items are formatted as JSON.
+ */
+export function toCsv(records: TraceRecord[]): string {
+  return [TRACE_COLUMNS.join(","), ...records.map(csvRow)]
+    .map((line) => line + "\n").join("");
+}
+
+/**
+ * Formats a trace record as a CSV row (RFC 4180 quoting).
+ */
+function csvRow(record: TraceRecord): string {
+  return TRACE_COLUMNS.map((column) => {
+    const value = record[column];
+
+    if (value === undefined) {
+      return "";
+    }
+
+    const text = (column === "item") ? JSON.stringify(value) : String(value);
+
+    return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+  }).join(",");
+}
@@ -0,0 +1,27 @@
+/// <reference no-default-lib="true" />
+/// <reference lib="deno.worker" />
+
+import { Metrics, Model } from "./model.ts";
+import { runReplication } from "./experiment.ts";
+
+/**
+ * Worker running replications for runExperimentInWorkers().
+ * Each message describes one replication, answered with its result
+ * (or with its error message).
+ */
+self.onmessage = async (message: MessageEvent) => {
+  const { module, params, seed, warmup, length } = message.data;
+
+  try {
+    const { model, metrics } = await import(module) as {
+      model: Model<unknown>;
+      metrics?: Metrics;
+    };
+
+    self.postMessage(
+      runReplication(model, params, seed, { warmup, length, metrics }),
+    );
+  } catch (error) {
+    self.postMessage({ error: String(error) });
+  }
+};
@@ -0,0 +1,83 @@
+import { assertEquals } from "@std/assert";
+import { ChromeTraceEvent, EventState, Process } from "../src/model.ts";
+import { toChromeTrace } from "../src/chrome.ts";
+import { createResource, release, request } from "../src/resources.ts";
+import {
+  createEvent,
+  initializeSimulation,
+  runSimulation,
+  scheduleEvent,
+  timeout,
+} from "../src/simulation.ts";
+import { createMemorySink } from "../src/trace.ts";
+
+Deno.test("chrome trace export", () => {
+  const sim = initializeSimulation({ seed: 1 });
+  const server = createResource(sim, 1, "server");
+
+  const customer: Process = function* (sim, event) {
+    yield* request(sim, event, server);
+    yield* timeout(sim, 10);
+    release(sim, event, server);
+  };
+
+  const first = createEvent(sim, 0, customer);
+  const second = createEvent(sim, 5, customer);
+  scheduleEvent(sim, first);
+  scheduleEvent(sim, second);
+
+  const sink = createMemorySink();
+  runSimulation(sim, { trace: { sink } });
+
+  const { traceEvents } = toChromeTrace(sink.records, { timeScale: 1 });
+  const find = (predicate: (event: ChromeTraceEvent) => boolean) =>
+    traceEvents.filter(predicate);
+
+  // One track per process, and one per resource
+  assertEquals(
+    find(({ name }) => name === "thread_name").map(({ args }) => args?.name),
+    [
+      `customer ${first.id.slice(0, 8)}`,
+      "server",
+      `customer ${second.id.slice(0, 8)}`,
+    ],
+  );
+
+  // Lifetimes of the processes, from start to finish
+  assertEquals(
+    find(({ name, ph }) => name === "customer" && ph === "X").map((
+      { ts, dur, args },
+    ) => ({ ts, dur, args })),
+    [
+      { ts: 0, dur: 10, args: { id: first.id, status: EventState.Finished } },
+      { ts: 5, dur: 15, args: { id: second.id, status: EventState.Finished } },
+    ],
+  );
+
+  // The second customer waits for the server, then for its service
+  const secondTrack = find(({ name, args }) =>
+    name === "thread_name" &&
+    args?.name === `customer ${second.id.slice(0, 8)}`
+  )[0].tid;
+  assertEquals(
+    find(({ name, tid }) => name === "wait" && tid === secondTrack).map((
+      { ts, dur },
+    ) => [ts, dur]),
+    [[5, 5], [10, 10]],
+  );
+
+  // Queue length of the server over time
+  assertEquals(
+    find(({ ph }) => ph === "C").map(({ ts, args }) => [ts, args?.queue]),
+    [[0, 0], [5, 1], [10, 1], [10, 0], [20, 0]],
+  );
+
+  // Timeouts are hidden by default
+  assertEquals(find(({ name }) => name.startsWith("idle")).length, 0);
+  assertEquals(
+    toChromeTrace(sink.records, { idle: true }).traceEvents.some(({ name }) =>
+      name === "idle"
+    ),
+    true,
+  );
+});
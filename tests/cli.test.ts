@@ -0,0 +1,120 @@
+import { assert, assertEquals } from "@std/assert";
+import { main } from "../cli.ts";
+
+/**
+ * Runs the command line, capturing what it prints.
+ */
+async function run(args: string[]) {
+  const output: string[] = [];
+  const errors: string[] = [];
+  const { log, error } = console;
+
+  console.log = (...data: unknown[]) => output.push(data.join(" "));
+  console.error = (...data: unknown[]) => errors.push(data.join(" "));
+
+  try {
+    const code = await main(args);
+    return { code, output: output.join("\n"), errors: errors.join("\n") };
+  } finally {
+    Object.assign(console, { log, error });
+  }
+}
+
+const experiment = new URL("../examples/experiment.ts", import.meta.url)
+  .pathname;
+
+Deno.test("command line run", async () => {
+  const { code, output } = await run([
+    experiment,
+    "--until",
+    "100",
+    "--seed=1",
+    "--report",
+    "json",
+  ]);
+  const report = JSON.parse(output);
+
+  assertEquals(code, 0);
+  assertEquals(report.seed, 1);
+  assertEquals(report.time, 100);
+  assert(report.stats.tallies.wait.count > 0);
+
+  // Same seed, same run
+  const again = await run([
+    experiment,
+    "--until=100",
+    "--seed=1",
+    "--report=json",
+  ]);
+  assertEquals(JSON.parse(again.output).stats.tallies, report.stats.tallies);
+
+  const table = await run([experiment, "--until", "100"]);
+  assertEquals(table.code, 0);
+  assert(table.output.includes("Simulation ended at 100"));
+  assert(table.output.includes("customers"));
+});
+
+Deno.test("command line replications", async () => {
+  const args = [experiment, "--until", "100", "--replications", "3"];
+
+  const json = await run([...args, "--seed", "1", "--report", "json"]);
+  const result = JSON.parse(json.output);
+
+  assertEquals(json.code, 0);
+  assertEquals(result.replications.length, 3);
+  assert(result.metrics["tallies.wait"].mean > 0);
+
+  const table = await run(args);
+  assertEquals(table.code, 0);
+  assert(table.output.includes("Replications: 3"));
+  assert(table.output.includes("tallies.wait"));
+});
+
+Deno.test("command line trace", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".jsonl" });
+
+  try {
+    const { code } = await run([experiment, "--until", "10", "--trace", path]);
+    const records = (await Deno.readTextFile(path)).trim().split("\n")
+      .map((line) => JSON.parse(line));
+
+    assertEquals(code, 0);
+    assert(records.length > 0);
+    assert(records.every(({ time }) => time <= 10));
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("command line errors", async () => {
+  const simulation = new URL("../src/simulation.ts", import.meta.url).href;
+  const path = await Deno.makeTempFile({ suffix: ".ts" });
+
+  await Deno.writeTextFile(
+    path,
+    `import { spawn, timeout } from "${simulation}";
+    export const model = (sim) => {
+      spawn(sim, function* (sim) {
+        yield* timeout(sim, 5);
+        throw Error("Broken model");
+      });
+    };`,
+  );
+
+  try {
+    const failure = await run([path]);
+    assertEquals(failure.code, 1);
+    assert(failure.errors.includes("Broken model"));
+
+    assertEquals((await run([path, "--replications", "2"])).code, 1);
+  } finally {
+    await Deno.remove(path);
+  }
+
+  assertEquals((await run(["missing.ts"])).code, 1);
+  assertEquals((await run([])).code, 2);
+  assertEquals((await run([experiment, "--until", "-1"])).code, 2);
+  assertEquals((await run([experiment, "--report", "xml"])).code, 2);
+  assertEquals((await run([experiment, "--speed", "2"])).code, 2);
+  assertEquals((await run(["--help"])).code, 0);
+});
@@ -0,0 +1,109 @@
+import { assertAlmostEquals, assertEquals, assertThrows } from "@std/assert";
+import { acquire, sink, source, waitingTime } from "../src/entities.ts";
+import { resetMonitors } from "../src/monitors.ts";
+import { Entity, Process } from "../src/model.ts";
+import { exponential, getStream } from "../src/random.ts";
+import { createResource, release } from "../src/resources.ts";
+import {
+  cancelEvent,
+  initializeSimulation,
+  runSimulation,
+  timeout,
+} from "../src/simulation.ts";
+
+Deno.test("source and sink of entities", () => {
+  const sim = initializeSimulation();
+  const server = createResource(sim, 1, "server");
+  const entities: Entity[] = [];
+
+  const customer: Process<Entity> = function* (sim, event) {
+    const entity = event.item!;
+    entities.push(entity);
+
+    yield* acquire(sim, event, server, entity);
+    yield* timeout(sim, 3);
+    release(sim, event, server);
+
+    sink(sim, entity);
+  };
+
+  source(sim, { interarrival: 2, maxEntities: 3 }, customer);
+  const stats = runSimulation(sim, { until: 12 });
+
+  assertEquals(entities.map(({ id }) => id), [1, 2, 3]);
+  assertEquals(entities.map(({ createdAt }) => createdAt), [0, 2, 4]);
+  assertEquals(entities.map(({ exitedAt }) => exitedAt), [3, 6, 9]);
+  assertEquals(entities[2].waits, [
+    { resource: "server", requestedAt: 4, acquiredAt: 6 },
+  ]);
+  assertEquals(entities.map(waitingTime), [0, 1, 2]);
+
+  assertEquals(stats.tallies["sink.timeInSystem"].mean, 4);
+  assertEquals(stats.tallies["sink.waitingTime"].mean, 1);
+  assertEquals(stats.sinks["sink"], {
+    exited: 3,
+    throughput: 0.25,
+    duration: 12,
+  });
+
+  // Little's law: mean number in system = throughput * mean time in system
+  assertEquals(stats.levels["source.inSystem"].level, 0);
+  assertEquals(stats.levels["source.inSystem"].mean, 1);
+
+  assertThrows(() => sink(sim, entities[0]), Error);
+});
+
+Deno.test("custom entities at random intervals", () => {
+  interface Order extends Entity {
+    size: number;
+  }
+
+  const sim = initializeSimulation({ seed: 7 });
+  const sizes: number[] = [];
+
+  const order: Process<Order> = function* (sim, event) {
+    sizes.push(event.item!.size);
+    yield* timeout(sim, event.item!.size);
+    sink(sim, event.item!, "shipped");
+  };
+
+  const handle = source<Order>(sim, {
+    name: "orders",
+    interarrival: (sim) => exponential(getStream(sim, "orders"), 1),
+    factory: (_sim, entity) => ({ ...entity, size: entity.id * 10 }),
+  }, order);
+
+  runSimulation(sim, { until: 1000 });
+  cancelEvent(sim, handle.id);
+  runSimulation(sim);
+
+  assertEquals(sizes.slice(0, 3), [10, 20, 30]);
+  assertEquals(sim.sinks["shipped"].exited, sizes.length);
+  assertEquals(sim.levels["orders.inSystem"].level, 0);
+
+  // Roughly one arrival per unit of time
+  assertAlmostEquals(sizes.length / 1000, 1, 0.1);
+
+  assertThrows(() => source(sim, { interarrival: 0 }, order), RangeError);
+});
+
+Deno.test("sink throughput after a warm-up", () => {
+  const sim = initializeSimulation();
+
+  const job: Process<Entity> = function* (sim, event) {
+    yield* timeout(sim, 0.5);
+    sink(sim, event.item!);
+  };
+
+  source(sim, { interarrival: 1, start: 10, until: 30 }, job);
+  runSimulation(sim, { until: 20 });
+  resetMonitors(sim);
+
+  const stats = runSimulation(sim, { until: 40 });
+
+  assertEquals(stats.sinks["sink"], {
+    exited: 10,
+    throughput: 0.5,
+    duration: 20,
+  });
+});
@@ -0,0 +1,41 @@
+import { assertEquals } from "@std/assert";
+import { Environment } from "../src/environment.ts";
+import { EventState } from "../src/model.ts";
+import { join } from "../src/simulation.ts";
+
+Deno.test("environment facade", () => {
+  const env = new Environment({ seed: 1 });
+  const server = env.resource(1, "server");
+  const store = env.store<string>();
+  const log: string[] = [];
+
+  const customer = env.process(function* (_sim, event) {
+    yield* env.request(event, server);
+    log.push(`[${env.now}] ${event.item} served`);
+    yield* env.timeout(5);
+    env.release(event, server);
+    yield* env.put(event, store, `${event.item} done`);
+  }, "alice");
+
+  env.process(function* (sim, event) {
+    yield* env.timeout(1);
+    yield* env.request(event, server);
+    log.push(`[${env.now}] ${event.item} served`);
+    env.release(event, server);
+    yield* join(sim, event, customer);
+    log.push(`[${env.now}] ${yield* env.get(event, store)}`);
+  }, "bob");
+
+  const reminder = env.schedule(env.event(100));
+
+  env.run({ until: 50 });
+  env.cancel(reminder.id);
+
+  assertEquals(log, ["[0] alice served", "[5] bob served", "[5] alice done"]);
+  assertEquals(env.now, 50);
+  assertEquals(env.peek(), Infinity);
+  assertEquals(
+    env.events.find(({ id }) => id === reminder.id)?.status,
+    EventState.Cancelled,
+  );
+});
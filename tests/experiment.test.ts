@@ -0,0 +1,181 @@
+import {
+  assert,
+  assertAlmostEquals,
+  assertEquals,
+  assertThrows,
+} from "@std/assert";
+import { Model, Process } from "../src/model.ts";
+import {
+  confidenceInterval,
+  createTally,
+  getLevelMonitor,
+  getTally,
+  recordLevel,
+  recordTally,
+  studentQuantile,
+} from "../src/monitors.ts";
+import { getStream, nextRandom } from "../src/random.ts";
+import {
+  parameterGrid,
+  runExperiment,
+  runExperimentInWorkers,
+  runSweep,
+} from "../src/experiment.ts";
+import {
+  averageQueueLength,
+  createResource,
+  release,
+  request,
+  utilization,
+} from "../src/resources.ts";
+import { spawn, timeout } from "../src/simulation.ts";
+
+/**
+ * Records a random observation (uniform in [0, scale)) every time unit,
+ * and a level equal to the current time.
+ */
+const model: Model<{ scale: number }> = (sim, { scale }) => {
+  const clock = getLevelMonitor(sim, "clock");
+
+  const observer: Process = function* (sim) {
+    while (true) {
+      yield* timeout(sim, 1);
+      recordTally(
+        getTally(sim, "draws"),
+        scale * nextRandom(getStream(sim, "draws")),
+      );
+      recordLevel(sim, clock, sim.currentTime);
+    }
+  };
+
+  spawn(sim, observer);
+};
+
+Deno.test("student quantiles", () => {
+  assertAlmostEquals(studentQuantile(0.05, 1), 12.706, 1e-3);
+  assertAlmostEquals(studentQuantile(0.05, 2), 4.303, 1e-3);
+  assertAlmostEquals(studentQuantile(0.05, 10), 2.228, 1e-3);
+  assertAlmostEquals(studentQuantile(0.01, 30), 2.750, 1e-3);
+  assertThrows(() => studentQuantile(0, 10), RangeError);
+});
+
+Deno.test("confidence interval", () => {
+  const tally = createTally();
+
+  for (const value of [1, 2, 3, 4, 5]) {
+    recordTally(tally, value);
+  }
+
+  const interval = confidenceInterval(tally, 0.95);
+
+  assertEquals(interval.mean, 3);
+  assertAlmostEquals(interval.halfWidth, 2.776 * Math.sqrt(2.5 / 5), 1e-3);
+  assertEquals(interval.lower, 3 - interval.halfWidth);
+  assertEquals(interval.upper, 3 + interval.halfWidth);
+  assertEquals(confidenceInterval(createTally()).halfWidth, NaN);
+});
+
+Deno.test("reproducible experiment", () => {
+  const options = { replications: 5, length: 100, seed: 42 };
+  const a = runExperiment(model, { scale: 1 }, options);
+  const b = runExperiment(model, { scale: 1 }, options);
+  const c = runExperiment(model, { scale: 1 }, { ...options, seed: 43 });
+
+  assertEquals(a, b);
+  assert(a.metrics["tallies.draws"].mean !== c.metrics["tallies.draws"].mean);
+
+  // Replications are independent
+  assertEquals(new Set(a.replications.map(({ seed }) => seed)).size, 5);
+
+  const draws = a.metrics["tallies.draws"];
+  assert(draws.lower < 0.5 && 0.5 < draws.upper);
+  assertEquals(a.replications[0].metrics["tallies.draws"] > 0, true);
+});
+
+Deno.test("experiment warm-up deletion", () => {
+  const result = runExperiment(model, { scale: 1 }, {
+    replications: 2,
+    warmup: 50,
+    length: 100,
+    seed: 1,
+  });
+
+  // Only the observations after the warm-up are kept
+  for (const { metrics } of result.replications) {
+    assertEquals(metrics["eventsProcessed"] > 0, true);
+    assertAlmostEquals(metrics["levels.clock"], 100, 1);
+  }
+
+  assertThrows(
+    () => runExperiment(model, { scale: 1 }, { replications: 0, length: 1 }),
+    RangeError,
+  );
+});
+
+Deno.test("warm-up deletion of resource statistics", () => {
+  // A resource busy during the warm-up only, with a queue
+  const busy: Model = (sim) => {
+    const server = createResource(sim, 1);
+
+    const job: Process = function* (sim, event) {
+      yield* request(sim, event, server);
+      yield* timeout(sim, 25);
+      release(sim, event, server);
+    };
+
+    spawn(sim, job);
+    spawn(sim, job);
+  };
+
+  const result = runExperiment(busy, undefined, {
+    replications: 1,
+    warmup: 50,
+    length: 50,
+    seed: 1,
+    metrics: (sim) => ({
+      utilization: utilization(sim, sim.resources[0]),
+      queue: averageQueueLength(sim, sim.resources[0]),
+    }),
+  });
+
+  assertEquals(result.replications[0].metrics, { utilization: 0, queue: 0 });
+});
+
+Deno.test("parameter sweep", () => {
+  assertEquals(parameterGrid({ a: [1, 2], b: ["x", "y"] }), [
+    { a: 1, b: "x" },
+    { a: 1, b: "y" },
+    { a: 2, b: "x" },
+    { a: 2, b: "y" },
+  ]);
+
+  const results = runSweep(model, { scale: [1, 10] }, {
+    replications: 3,
+    length: 100,
+    seed: 7,
+  });
+
+  assertEquals(results.map(({ params }) => params), [{ scale: 1 }, {
+    scale: 10,
+  }]);
+
+  // Common random numbers: the same draws, scaled
+  assertAlmostEquals(
+    results[1].metrics["tallies.draws"].mean,
+    10 * results[0].metrics["tallies.draws"].mean,
+  );
+});
+
+Deno.test("experiment in workers", async () => {
+  const module = new URL("../examples/experiment.ts", import.meta.url);
+  const { model } = await import(module.href);
+  const params = { arrival: 1, service: 0.5 };
+  const options = { replications: 3, length: 100, seed: 3 };
+
+  const result = await runExperimentInWorkers(module, params, {
+    ...options,
+    workers: 2,
+  });
+
+  assertEquals(result, runExperiment(model, params, options));
+});
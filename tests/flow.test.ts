@@ -0,0 +1,373 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import {
+  compileFlowModel,
+  FlowModelError,
+  parseFlowModel,
+  validateFlowModel,
+} from "../src/flow.ts";
+import { FlowModel } from "../src/model.ts";
+import { formatStats } from "../src/report.ts";
+import { initializeSimulation, runSimulation } from "../src/simulation.ts";
+
+const clinic: FlowModel = {
+  name: "clinic",
+  resources: { doctor: { capacity: 1 } },
+  sources: { patients: { interarrival: 2, maxEntities: 4, next: "queue" } },
+  blocks: {
+    queue: { type: "request", resource: "doctor", next: "consult" },
+    consult: { type: "delay", duration: 3, next: "leave" },
+    leave: { type: "release", resource: "doctor", next: "exit" },
+    exit: { type: "sink" },
+  },
+};
+
+Deno.test("declarative model run", () => {
+  const sim = initializeSimulation();
+  compileFlowModel(parseFlowModel(JSON.stringify(clinic), "json"))(sim);
+
+  const stats = runSimulation(sim);
+
+  // Arrivals at 0, 2, 4, 6, consultations end at 3, 6, 9, 12
+  assertEquals(sim.currentTime, 12);
+  assertEquals(stats.sinks["exit"].exited, 4);
+  assertEquals(stats.tallies["exit.timeInSystem"].mean, 4.5);
+  assertEquals(stats.tallies["doctor.wait"].mean, 1.5);
+  assertEquals(stats.levels["doctor.inUse"].mean, 1);
+  assertEquals(stats.levels["patients.inSystem"].level, 0);
+
+  const report = formatStats(stats);
+  assert(report.includes("exit.timeInSystem"));
+  assert(report.includes("doctor.inUse"));
+});
+
+Deno.test("declarative model branches", () => {
+  const model: FlowModel = {
+    sources: {
+      parts: {
+        interarrival: { distribution: "exponential", mean: 1 },
+        maxEntities: 1000,
+        next: "inspect",
+      },
+    },
+    blocks: {
+      inspect: {
+        type: "branch",
+        branches: [
+          { probability: 0.8, next: "good" },
+          { probability: 0.2, next: "scrap" },
+        ],
+      },
+      good: { type: "sink" },
+      scrap: { type: "sink" },
+    },
+  };
+
+  const run = (seed: number) => {
+    const sim = initializeSimulation({ seed });
+    compileFlowModel(model)(sim);
+    return runSimulation(sim);
+  };
+
+  const stats = run(3);
+  const good = stats.sinks["good"].exited;
+
+  assertEquals(good + stats.sinks["scrap"].exited, 1000);
+  assert(good > 750 && good < 850);
+  assertEquals(run(3).sinks["good"].exited, good);
+});
+
+Deno.test("declarative model priorities", () => {
+  const patients = (priority: number): FlowModel["blocks"] => ({
+    [`queue${priority}`]: {
+      type: "request",
+      resource: "doctor",
+      priority,
+      next: `consult${priority}`,
+    },
+    [`consult${priority}`]: {
+      type: "delay",
+      duration: 3,
+      next: `leave${priority}`,
+    },
+    [`leave${priority}`]: {
+      type: "release",
+      resource: "doctor",
+      next: `exit${priority}`,
+    },
+    [`exit${priority}`]: { type: "sink" },
+  });
+
+  const model: FlowModel = {
+    resources: { doctor: { capacity: 1, prioritized: true } },
+    sources: {
+      routine: { interarrival: 1, maxEntities: 4, next: "queue1" },
+      urgent: { interarrival: 1, maxEntities: 2, start: 1.5, next: "queue0" },
+    },
+    blocks: { ...patients(0), ...patients(1) },
+  };
+
+  const sim = initializeSimulation();
+  compileFlowModel(model)(sim);
+
+  const stats = runSimulation(sim);
+
+  // Routine patients arrive at 0, 1, 2, 3, urgent ones at 1.5 and 2.5:
+  // after the first routine patient, both urgent ones are served
+  // (at 3 and 6) before the routine ones waiting since 1, 2 and 3
+  assertEquals(stats.tallies["exit0.waitingTime"].mean, (1.5 + 3.5) / 2);
+  assertEquals(stats.tallies["exit1.waitingTime"].mean, (0 + 8 + 10 + 12) / 4);
+
+  // First come, first served otherwise
+  assertThrows(
+    () =>
+      validateFlowModel({ ...model, resources: { doctor: { capacity: 1 } } }),
+    FlowModelError,
+    '/blocks/queue0/priority: resource "doctor" is not prioritized',
+  );
+});
+
+Deno.test("declarative model validation", () => {
+  const invalid = (model: unknown) =>
+    assertThrows(() => validateFlowModel(model), FlowModelError).errors;
+
+  assertEquals(invalid({ blocks: {} }), [
+    '/: missing property "sources"',
+    "/blocks: must have at least 1 propert(ies)",
+  ]);
+
+  assertEquals(
+    invalid({
+      ...clinic,
+      sources: { patients: { interarrival: -1, next: "queue" } },
+    }),
+    ["/sources/patients/interarrival: must be greater than 0"],
+  );
+
+  assertEquals(
+    invalid({
+      ...clinic,
+      blocks: {
+        ...clinic.blocks,
+        consult: { type: "delay", duration: { distribution: "uniform" } },
+      },
+    }),
+    [
+      '/blocks/consult: missing property "next"',
+      '/blocks/consult/duration: missing property "min"',
+      '/blocks/consult/duration: missing property "max"',
+    ],
+  );
+
+  assertEquals(
+    invalid({ ...clinic, blocks: { ...clinic.blocks, exit: { type: "end" } } }),
+    [
+      '/blocks/exit: must be one of: object with "type": "request", ' +
+      'object with "type": "release", object with "type": "delay", ' +
+      'object with "type": "branch", object with "type": "sink"',
+    ],
+  );
+
+  assertEquals(
+    invalid({
+      ...clinic,
+      resources: {},
+      blocks: {
+        ...clinic.blocks,
+        consult: {
+          type: "branch",
+          branches: [{ probability: 0.5, next: "nowhere" }],
+        },
+      },
+    }),
+    [
+      '/blocks/queue/resource: unknown resource "doctor"',
+      '/blocks/consult/branches/0/next: unknown block "nowhere"',
+      "/blocks/consult/branches: probabilities add up to 0.5",
+      '/blocks/leave/resource: unknown resource "doctor"',
+    ],
+  );
+
+  assertEquals(
+    invalid({
+      ...clinic,
+      sources: {
+        patients: {
+          interarrival: { distribution: "uniform", min: 5, max: 1 },
+          next: "queue",
+        },
+      },
+      blocks: {
+        ...clinic.blocks,
+        consult: {
+          type: "delay",
+          duration: { distribution: "triangular", min: 1, mode: 4, max: 3 },
+          next: "leave",
+        },
+      },
+    }),
+    [
+      "/sources/patients/interarrival: min must be at most max",
+      "/blocks/consult/duration: mode must be at most max",
+    ],
+  );
+
+  // Arrivals all at the same time
+  const arrivals = (interarrival: unknown) =>
+    invalid({
+      ...clinic,
+      sources: { patients: { interarrival, next: "queue" } },
+    });
+
+  assertEquals(arrivals(0), [
+    "/sources/patients/interarrival: must be greater than 0",
+  ]);
+  assertEquals(arrivals({ distribution: "constant", value: 0 }), [
+    "/sources/patients/interarrival/value: must be greater than 0",
+  ]);
+  assertEquals(arrivals({ distribution: "uniform", min: 0, max: 0 }), [
+    "/sources/patients/interarrival/max: must be greater than 0",
+  ]);
+  assertEquals(arrivals({ distribution: "empirical", samples: [0, 0] }), [
+    "/sources/patients/interarrival/samples: must not all be 0",
+  ]);
+
+  // Negative durations
+  const durations = (duration: unknown) =>
+    invalid({
+      ...clinic,
+      blocks: {
+        ...clinic.blocks,
+        consult: { type: "delay", duration, next: "leave" },
+      },
+    });
+
+  assertEquals(durations({ distribution: "uniform", min: -1, max: 2 }), [
+    "/blocks/consult/duration/min: must be at least 0",
+  ]);
+  assertEquals(
+    durations({ distribution: "triangular", min: -2, mode: -1, max: 1 }),
+    [
+      "/blocks/consult/duration/min: must be at least 0",
+      "/blocks/consult/duration/mode: must be at least 0",
+    ],
+  );
+  assertEquals(durations({ distribution: "empirical", samples: [1, -1] }), [
+    "/blocks/consult/duration/samples/1: must be at least 0",
+  ]);
+
+  // Zero durations are fine
+  validateFlowModel({
+    ...clinic,
+    blocks: {
+      ...clinic.blocks,
+      consult: {
+        type: "delay",
+        duration: { distribution: "empirical", samples: [0, 1] },
+        next: "leave",
+      },
+    },
+  });
+
+  assertThrows(() => parseFlowModel("{", "json"), FlowModelError);
+});
+
+Deno.test("declarative model cycles", () => {
+  const invalid = (blocks: FlowModel["blocks"]) =>
+    assertThrows(
+      () => validateFlowModel({ ...clinic, blocks }),
+      FlowModelError,
+    ).errors;
+
+  // Retrying forever at the same time
+  assertEquals(
+    invalid({
+      queue: {
+        type: "branch",
+        branches: [
+          { probability: 0.5, next: "queue" },
+          { probability: 0.5, next: "queue" },
+        ],
+      },
+    }),
+    ["/blocks/queue: cycle without a delay block (queue → queue)"],
+  );
+
+  assertEquals(
+    invalid({
+      queue: { type: "request", resource: "doctor", next: "leave" },
+      leave: { type: "release", resource: "doctor", next: "check" },
+      check: {
+        type: "branch",
+        branches: [
+          { probability: 0.9, next: "queue" },
+          { probability: 0.1, next: "exit" },
+        ],
+      },
+      exit: { type: "sink" },
+    }),
+    [
+      "/blocks/queue: cycle without a delay block " +
+      "(queue → leave → check → queue)",
+    ],
+  );
+
+  // A delay in the cycle lets the time advance
+  validateFlowModel({
+    ...clinic,
+    blocks: {
+      ...clinic.blocks,
+      leave: { type: "release", resource: "doctor", next: "check" },
+      check: {
+        type: "branch",
+        branches: [
+          { probability: 0.9, next: "queue" },
+          { probability: 0.1, next: "exit" },
+        ],
+      },
+    },
+  });
+});
+
+Deno.test("declarative model held resources", () => {
+  const invalid = (blocks: FlowModel["blocks"]) =>
+    assertThrows(
+      () => validateFlowModel({ ...clinic, blocks }),
+      FlowModelError,
+    ).errors;
+
+  // Released on one path only
+  assertEquals(
+    invalid({
+      queue: {
+        type: "branch",
+        branches: [
+          { probability: 0.5, next: "request" },
+          { probability: 0.5, next: "consult" },
+        ],
+      },
+      request: { type: "request", resource: "doctor", next: "consult" },
+      consult: { type: "delay", duration: 3, next: "leave" },
+      leave: { type: "release", resource: "doctor", next: "exit" },
+      exit: { type: "sink" },
+    }),
+    ['/blocks/leave: releases "doctor" without holding it'],
+  );
+
+  // Never released
+  assertEquals(
+    invalid({
+      ...clinic.blocks,
+      consult: { type: "delay", duration: 3, next: "exit" },
+    }),
+    ['/blocks/exit: reached while holding "doctor"'],
+  );
+
+  // Requested again while held, the only slot can't be granted
+  assertEquals(
+    invalid({
+      ...clinic.blocks,
+      consult: { type: "delay", duration: 3, next: "queue" },
+    }),
+    ['/blocks/queue: requests "doctor" while holding all its capacity (1)'],
+  );
+});
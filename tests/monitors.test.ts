@@ -0,0 +1,127 @@
+import { assertAlmostEquals, assertEquals, assertThrows } from "@std/assert";
+import { Process } from "../src/model.ts";
+import {
+  createTally,
+  getLevelMonitor,
+  getTally,
+  percentile,
+  recordLevel,
+  recordTally,
+  summarizeTally,
+} from "../src/monitors.ts";
+import { createStore, get, put } from "../src/resources.ts";
+import {
+  createEvent,
+  initializeSimulation,
+  runSimulation,
+  scheduleEvent,
+  timeout,
+} from "../src/simulation.ts";
+
+Deno.test("tally statistics", () => {
+  const tally = createTally();
+
+  for (const value of [2, 4, 4, 4, 5, 5, 7, 9]) {
+    recordTally(tally, value);
+  }
+
+  const summary = summarizeTally(tally);
+
+  assertEquals(summary.count, 8);
+  assertEquals(summary.mean, 5);
+  assertAlmostEquals(summary.variance, 32 / 7);
+  assertEquals(summary.min, 2);
+  assertEquals(summary.max, 9);
+  assertEquals(summary.p50, 4.5);
+  assertAlmostEquals(summary.p90, 7.6);
+  assertEquals(percentile(tally, 0), 2);
+  assertEquals(percentile(tally, 100), 9);
+  assertThrows(() => percentile(tally, 101), RangeError);
+});
+
+Deno.test("empty tally statistics", () => {
+  const summary = summarizeTally(createTally());
+
+  assertEquals(summary.count, 0);
+  assertEquals(summary.mean, NaN);
+  assertEquals(summary.variance, NaN);
+  assertEquals(summary.min, NaN);
+  assertEquals(summary.p99, NaN);
+});
+
+Deno.test("time-weighted level statistics", () => {
+  const sim = initializeSimulation();
+
+  const queue: Process = function* (sim) {
+    const monitor = getLevelMonitor(sim, "queue");
+
+    // Level 0 for 2, 2 for 4, 1 for 4
+    yield* timeout(sim, 2);
+    recordLevel(sim, monitor, 2);
+    yield* timeout(sim, 4);
+    recordLevel(sim, monitor, 1);
+    yield* timeout(sim, 4);
+  };
+
+  scheduleEvent(sim, createEvent(sim, 0, queue));
+
+  const stats = runSimulation(sim);
+  const summary = stats.levels["queue"];
+
+  assertEquals(summary.level, 1);
+  assertEquals(summary.duration, 10);
+  assertAlmostEquals(summary.mean, 1.2);
+  assertAlmostEquals(summary.variance, 2 - 1.2 * 1.2);
+  assertEquals(summary.min, 0);
+  assertEquals(summary.max, 2);
+});
+
+Deno.test("run statistics", () => {
+  const sim = initializeSimulation();
+
+  const customer: Process = function* (sim) {
+    const arrival = sim.currentTime;
+    yield* timeout(sim, 3);
+    recordTally(getTally(sim, "sojourn"), sim.currentTime - arrival);
+  };
+
+  scheduleEvent(sim, createEvent(sim, 0, customer));
+  scheduleEvent(sim, createEvent(sim, 1, customer));
+
+  const stats = runSimulation(sim);
+
+  // Each customer: its own event, then its timeout event, then its resumption
+  assertEquals(stats.eventsProcessed, 6);
+  assertEquals(stats.tallies["sojourn"].count, 2);
+  assertEquals(stats.tallies["sojourn"].mean, 3);
+
+  // Both customers are fired at 0, their timeouts 3 before finishing
+  assertEquals(stats.meanWait, (3 + 4 + 3 + 3) / 4);
+
+  // Resuming counts only the events of the new run
+  assertEquals(runSimulation(sim).eventsProcessed, 0);
+});
+
+Deno.test("run statistics of blocked processes", () => {
+  const sim = initializeSimulation();
+  const store = createStore<string>();
+
+  const consumer: Process<string> = function* (sim, event) {
+    yield* get(sim, event, store);
+    yield* timeout(sim, 2);
+  };
+
+  const producer: Process<string> = function* (sim, event) {
+    yield* put(sim, event, store, "item");
+  };
+
+  scheduleEvent(sim, createEvent(sim, 0, consumer));
+  scheduleEvent(sim, createEvent(sim, 10, producer));
+
+  const stats = runSimulation(sim);
+
+  // Only the completed events count, not the consumer paused in its get:
+  // the producer (10), the consumer's timeout (2) and the consumer (12)
+  assertEquals(stats.eventsProcessed, 5);
+  assertEquals(stats.meanWait, (10 + 2 + 12) / 3);
+});
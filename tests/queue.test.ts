@@ -0,0 +1,51 @@
+import { assertEquals } from "@std/assert";
+import { Event, Process, Simulation } from "../src/model.ts";
+import { createHeap, peekHeap, popHeap, pushHeap } from "../src/queue.ts";
+import {
+  createEvent,
+  initializeSimulation,
+  runSimulation,
+  scheduleEvent,
+} from "../src/simulation.ts";
+
+Deno.test("heap ordering", () => {
+  const heap = createHeap<number>((a, b) => a - b);
+
+  for (const item of [5, 3, 8, 1, 9, 2, 7]) {
+    pushHeap(heap, item);
+  }
+
+  assertEquals(peekHeap(heap), 1);
+
+  const popped: number[] = [];
+  let item = popHeap(heap);
+  while (item !== undefined) {
+    popped.push(item);
+    item = popHeap(heap);
+  }
+
+  assertEquals(popped, [1, 2, 3, 5, 7, 8, 9]);
+  assertEquals(popHeap(heap), undefined);
+});
+
+Deno.test("same-time events keep insertion order", () => {
+  const sim = initializeSimulation();
+
+  const processedOrder: string[] = [];
+  const cb: Process = function* (_sim: Simulation, event: Event) {
+    processedOrder.push(event.id);
+    yield;
+  };
+
+  const e1 = createEvent(sim, 10, cb);
+  const e2 = createEvent(sim, 10, cb);
+  const e3 = createEvent(sim, 5, cb);
+  const e4 = createEvent(sim, 10, cb);
+  sim.events = scheduleEvent(sim, e1);
+  sim.events = scheduleEvent(sim, e2);
+  sim.events = scheduleEvent(sim, e3);
+  sim.events = scheduleEvent(sim, e4);
+
+  const _stats = runSimulation(sim);
+  assertEquals(processedOrder, [e3.id, e1.id, e2.id, e4.id]);
+});
@@ -0,0 +1,130 @@
+import { assert, assertAlmostEquals, assertEquals } from "@std/assert";
+import { Process } from "../src/model.ts";
+import {
+  createRandomStream,
+  discrete,
+  empirical,
+  exponential,
+  getStream,
+  lognormal,
+  nextRandom,
+  normal,
+  poisson,
+  randomId,
+  triangular,
+  uniform,
+  weibull,
+} from "../src/random.ts";
+import {
+  createEvent,
+  initializeSimulation,
+  runSimulation,
+  scheduleEvent,
+  timeout,
+} from "../src/simulation.ts";
+
+function mean(samples: number[]): number {
+  return samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+}
+
+function draw(size: number, sampler: () => number): number[] {
+  return Array.from({ length: size }, sampler);
+}
+
+Deno.test("reproducible random streams", () => {
+  const a = createRandomStream(42);
+  const b = createRandomStream(42);
+  const c = createRandomStream(43);
+
+  const drawsA = draw(100, () => nextRandom(a));
+  const drawsB = draw(100, () => nextRandom(b));
+  const drawsC = draw(100, () => nextRandom(c));
+
+  assertEquals(drawsA, drawsB);
+  assert(drawsA.some((value, i) => value !== drawsC[i]));
+  assert(drawsA.every((value) => value >= 0 && value < 1));
+
+  assertEquals(
+    randomId(createRandomStream(1)),
+    randomId(createRandomStream(1)),
+  );
+  assert(
+    /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      .test(randomId(a)),
+  );
+});
+
+Deno.test("independent named substreams", () => {
+  const sim1 = initializeSimulation({ seed: 7 });
+  const sim2 = initializeSimulation({ seed: 7 });
+
+  // Draws on another stream must not shift the "service" stream
+  draw(10, () => nextRandom(getStream(sim1, "arrivals")));
+
+  const service1 = draw(10, () => nextRandom(getStream(sim1, "service")));
+  const service2 = draw(10, () => nextRandom(getStream(sim2, "service")));
+  const arrivals2 = draw(10, () => nextRandom(getStream(sim2, "arrivals")));
+
+  assertEquals(service1, service2);
+  assert(service2.some((value, i) => value !== arrivals2[i]));
+});
+
+Deno.test("identical runs with identical seeds", () => {
+  const run = (seed: number): string => {
+    const sim = initializeSimulation({ seed });
+
+    const customer: Process = function* (sim) {
+      yield* timeout(sim, exponential(getStream(sim, "service"), 5));
+    };
+
+    const arrivals: Process = function* (sim) {
+      for (let i = 0; i < 20; i++) {
+        yield* timeout(sim, exponential(getStream(sim, "arrivals"), 2));
+        sim.events = scheduleEvent(
+          sim,
+          createEvent(sim, sim.currentTime, customer),
+        );
+      }
+    };
+
+    sim.events = scheduleEvent(sim, createEvent(sim, 0, arrivals));
+    const _stats = runSimulation(sim);
+
+    return JSON.stringify(sim.events);
+  };
+
+  assertEquals(run(1234), run(1234));
+  assert(run(1234) !== run(4321));
+});
+
+Deno.test("distribution sample means", () => {
+  const stream = createRandomStream(2024);
+  const size = 20000;
+
+  assertAlmostEquals(mean(draw(size, () => uniform(stream, 2, 4))), 3, 0.05);
+  assertAlmostEquals(mean(draw(size, () => exponential(stream, 5))), 5, 0.2);
+  assertAlmostEquals(mean(draw(size, () => normal(stream, 10, 2))), 10, 0.1);
+  assertAlmostEquals(
+    mean(draw(size, () => lognormal(stream, 0, 0.5))),
+    Math.exp(0.125),
+    0.05,
+  );
+  assertAlmostEquals(
+    mean(draw(size, () => triangular(stream, 0, 3, 6))),
+    3,
+    0.05,
+  );
+  assertAlmostEquals(mean(draw(size, () => poisson(stream, 4))), 4, 0.1);
+  assertAlmostEquals(mean(draw(size, () => poisson(stream, 75))), 75, 0.5);
+  assertAlmostEquals(mean(draw(size, () => weibull(stream, 2, 1))), 2, 0.1);
+  assertAlmostEquals(
+    mean(draw(size, () => empirical(stream, [1, 2, 3, 6]))),
+    3,
+    0.1,
+  );
+  assertAlmostEquals(
+    mean(draw(size, () => discrete(stream, [0, 10], [3, 1]))),
+    2.5,
+    0.2,
+  );
+});
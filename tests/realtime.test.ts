@@ -0,0 +1,113 @@
+import {
+  assert,
+  assertAlmostEquals,
+  assertEquals,
+  assertRejects,
+} from "@std/assert";
+import { Process } from "../src/model.ts";
+import { runRealtime } from "../src/realtime.ts";
+import {
+  createEvent,
+  initializeSimulation,
+  scheduleEvent,
+  timeout,
+} from "../src/simulation.ts";
+
+/**
+ * Blocks the thread for the given real-world duration (in milliseconds).
+ */
+function busy(duration: number): void {
+  const end = performance.now() + duration;
+
+  while (performance.now() < end) {
+    // Simulate a slow computation
+  }
+}
+
+Deno.test("real-time run", async () => {
+  const sim = initializeSimulation();
+  const times: [number, number][] = [];
+  const start = performance.now();
+
+  const ticker: Process = function* (sim) {
+    for (let i = 0; i < 3; i++) {
+      yield* timeout(sim, 5);
+      times.push([sim.currentTime, performance.now() - start]);
+    }
+  };
+
+  scheduleEvent(sim, createEvent(sim, 0, ticker));
+
+  const stats = await runRealtime(sim, { factor: 10 });
+
+  assertEquals(times.map(([time]) => time), [5, 10, 15]);
+
+  // Each event waits for its real-world time
+  for (const [time, elapsed] of times) {
+    assert(elapsed >= time * 10 - 1, `${elapsed} ms elapsed at ${time}`);
+  }
+
+  assert(stats.duration >= 149);
+  assertEquals(stats.eventsProcessed, 7);
+});
+
+Deno.test("real-time run until a horizon", async () => {
+  const sim = initializeSimulation();
+  const start = performance.now();
+
+  const stats = await runRealtime(sim, { factor: 10, until: 5 });
+
+  // Waits for the horizon even without events
+  assertEquals(sim.currentTime, 5);
+  assertEquals(stats.eventsProcessed, 0);
+  assert(performance.now() - start >= 49);
+});
+
+Deno.test("events injected in a real-time run", async () => {
+  const sim = initializeSimulation();
+  let injectedAt: number | undefined;
+
+  const injected: Process = function* (sim) {
+    injectedAt = sim.currentTime;
+    yield* timeout(sim, 0);
+  };
+
+  // External code schedules an event at the current time while the run waits
+  const timer = setTimeout(() => {
+    scheduleEvent(sim, createEvent(sim, sim.currentTime, injected));
+  }, 30);
+
+  await runRealtime(sim, { factor: 10, until: 10 });
+  clearTimeout(timer);
+
+  assert(injectedAt !== undefined);
+  assertAlmostEquals(injectedAt, 3, 1);
+});
+
+Deno.test("real-time run falling behind", async () => {
+  const slow: Process = function* (sim) {
+    busy(50);
+    yield* timeout(sim, 1);
+  };
+
+  const sim = initializeSimulation();
+  scheduleEvent(sim, createEvent(sim, 0, slow));
+
+  const lags: number[] = [];
+  const stats = await runRealtime(sim, {
+    factor: 1,
+    onLag: (lag) => lags.push(lag),
+  });
+
+  assertEquals(lags.length, 2);
+  assert(stats.maxLag >= 49);
+
+  const strict = initializeSimulation();
+  scheduleEvent(strict, createEvent(strict, 0, slow));
+
+  await assertRejects(
+    () => runRealtime(strict, { factor: 1, strict: true }),
+    Error,
+    "Simulation fell behind real time",
+  );
+});
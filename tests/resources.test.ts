@@ -1,12 +1,52 @@
-import { assertEquals } from "@std/assert";
-import { Process, Store } from "../src/model.ts";
 import {
+  assert,
+  assertAlmostEquals,
+  assertEquals,
+  assertThrows,
+} from "@std/assert";
+import {
+  ErrorPolicy,
+  EventPriority,
+  EventState,
+  Process,
+  Store,
+  TraceKind,
+} from "../src/model.ts";
+import {
+  anyOf,
+  cancelEvent,
   createEvent,
   initializeSimulation,
+  interrupt,
   runSimulation,
   scheduleEvent,
+  SimulationError,
+  timeout,
 } from "../src/simulation.ts";
-import { createStore, get, put } from "../src/resources.ts";
+import {
+  averageQueueLength,
+  createContainer,
+  createLatch,
+  createPreemptiveResource,
+  createPriorityResource,
+  createPriorityStore,
+  createResource,
+  createSignal,
+  createStore,
+  get,
+  getAmount,
+  Preempted,
+  put,
+  putAmount,
+  release,
+  request,
+  resetSignal,
+  trigger,
+  utilization,
+  wait,
+} from "../src/resources.ts";
+import { exponential, getStream } from "../src/random.ts";
+import { createMemorySink } from "../src/trace.ts";
 
 Deno.test("ordered inter-process synchronization", () => {
   const sim = initializeSimulation();
@@ -72,3 +112,688 @@ Deno.test("ordered inter-process synchronization", () => {
   assertEquals(store.getRequests.length, 3);
   assertEquals(store.putRequests.length, 0);
 });
+
+Deno.test("same-time store requests ordering with priorities", () => {
+  const sim = initializeSimulation();
+
+  const store: Store<string> = createStore<string>();
+  const result: string[] = [];
+
+  const prod: Process<string> = function* (sim, event) {
+    yield* put(sim, event, store, event.item ?? "");
+  };
+
+  const cons: Process<string> = function* (sim, event) {
+    const item = yield* get(sim, event, store);
+    result.push(`${event.item}:${item}`);
+  };
+
+  const c1 = createEvent(sim, 0, cons, "c1");
+  sim.events = scheduleEvent(sim, c1);
+  const c2 = createEvent(sim, 0, cons, "c2", EventPriority.Urgent);
+  sim.events = scheduleEvent(sim, c2);
+  const c3 = createEvent(sim, 0, cons, "c3");
+  sim.events = scheduleEvent(sim, c3);
+
+  const p1 = createEvent(sim, 10, prod, "p1");
+  sim.events = scheduleEvent(sim, p1);
+  const p2 = createEvent(sim, 10, prod, "p2");
+  sim.events = scheduleEvent(sim, p2);
+  const p3 = createEvent(sim, 10, prod, "p3");
+  sim.events = scheduleEvent(sim, p3);
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(result, ["c2:p1", "c1:p2", "c3:p3"]);
+});
+
+Deno.test("resource capacity", () => {
+  const sim = initializeSimulation();
+
+  const resource = createResource(sim, 2);
+  const granted: Record<string, number> = {};
+  const released: Record<string, number> = {};
+
+  const job: Process<string> = function* (sim, event) {
+    yield* request(sim, event, resource);
+    granted[event.item ?? ""] = sim.currentTime;
+    yield* timeout(sim, 10);
+    release(sim, event, resource);
+    released[event.item ?? ""] = sim.currentTime;
+  };
+
+  for (const name of ["a", "b", "c", "d", "e"]) {
+    sim.events = scheduleEvent(sim, createEvent(sim, 0, job, name));
+  }
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(granted, { a: 0, b: 0, c: 10, d: 10, e: 20 });
+  assertEquals(released, { a: 10, b: 10, c: 20, d: 20, e: 30 });
+  assertEquals(resource.users.length, 0);
+  assertEquals(resource.requests.length, 0);
+  assertAlmostEquals(utilization(sim, resource), 50 / 60);
+  assertAlmostEquals(averageQueueLength(sim, resource), (30 + 10) / 30);
+
+  assertThrows(() => createResource(sim, 0));
+});
+
+Deno.test("M/M/c queue", () => {
+  const sim = initializeSimulation({ seed: 42 });
+
+  const servers = 3;
+  const meanInterarrival = 0.5;
+  const meanService = 1.2;
+  const resource = createResource(sim, servers);
+
+  const customer: Process = function* (sim, event) {
+    yield* request(sim, event, resource);
+    yield* timeout(sim, exponential(getStream(sim, "service"), meanService));
+    release(sim, event, resource);
+  };
+
+  const arrivals: Process = function* (sim) {
+    while (true) {
+      yield* timeout(
+        sim,
+        exponential(getStream(sim, "arrivals"), meanInterarrival),
+      );
+      sim.events = scheduleEvent(
+        sim,
+        createEvent(sim, sim.currentTime, customer),
+      );
+    }
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, arrivals));
+  const _stats = runSimulation(sim, { until: 10000 });
+
+  // Erlang C formula for the expected queue length
+  const load = meanService / meanInterarrival;
+  const rho = load / servers;
+  const factorial = (n: number): number => (n <= 1) ? 1 : n * factorial(n - 1);
+  let sum = 0;
+  for (let k = 0; k < servers; k++) {
+    sum += load ** k / factorial(k);
+  }
+  const tail = load ** servers / (factorial(servers) * (1 - rho));
+  const expectedQueueLength = (tail / (sum + tail)) * rho / (1 - rho);
+
+  assertAlmostEquals(utilization(sim, resource), rho, 0.03);
+  assertAlmostEquals(
+    averageQueueLength(sim, resource),
+    expectedQueueLength,
+    expectedQueueLength * 0.2,
+  );
+});
+
+Deno.test("priority resource queueing", () => {
+  const sim = initializeSimulation();
+
+  const resource = createPriorityResource(sim, 1);
+  const granted: string[] = [];
+
+  const job: Process<string> = function* (sim, event) {
+    yield* request(sim, event, resource);
+    granted.push(event.item ?? "");
+    yield* timeout(sim, 10);
+    release(sim, event, resource);
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, job, "first"));
+  sim.events = scheduleEvent(sim, createEvent(sim, 1, job, "normal"));
+  sim.events = scheduleEvent(
+    sim,
+    createEvent(sim, 2, job, "urgent", EventPriority.Urgent),
+  );
+  sim.events = scheduleEvent(sim, createEvent(sim, 3, job, "low", 5));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(granted, ["first", "urgent", "normal", "low"]);
+  assertEquals(sim.currentTime, 40);
+});
+
+Deno.test("priority requests leave the event priority unchanged", () => {
+  const sim = initializeSimulation();
+
+  const resource = createPriorityResource(sim, 1);
+  const order: string[] = [];
+
+  const holder: Process = function* (sim, event) {
+    yield* request(sim, event, resource);
+    yield* timeout(sim, 10);
+    release(sim, event, resource);
+  };
+
+  const waiter: Process = function* (sim, event) {
+    yield* request(sim, event, resource, EventPriority.Urgent);
+    yield* timeout(sim, 5);
+    order.push("waiter");
+    release(sim, event, resource);
+  };
+
+  const other: Process = function* () {
+    order.push("other");
+    yield* timeout(sim, 0);
+  };
+
+  const w = createEvent(sim, 0, waiter);
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, holder));
+  sim.events = scheduleEvent(sim, w);
+  sim.events = scheduleEvent(sim, createEvent(sim, 15, other));
+
+  const _stats = runSimulation(sim);
+
+  // Both run at 15: the event scheduled first runs first
+  assertEquals(order, ["other", "waiter"]);
+  assertEquals(sim.events[sim.index.get(w.id)!].priority, EventPriority.Normal);
+});
+
+Deno.test("preemptive resource preempt-and-resume", () => {
+  const sim = initializeSimulation();
+
+  const resource = createPreemptiveResource(sim, 1);
+  const log: string[] = [];
+
+  const job: Process<number> = function* (sim, event) {
+    let remaining = event.item ?? 0;
+
+    while (remaining > 0) {
+      yield* request(sim, event, resource);
+      log.push(`[${sim.currentTime}] ${event.priority} granted`);
+
+      try {
+        yield* timeout(sim, remaining);
+        remaining = 0;
+        release(sim, event, resource);
+        log.push(`[${sim.currentTime}] ${event.priority} done`);
+      } catch (error) {
+        assert(error instanceof Preempted);
+        assertEquals(error.usageSince, sim.currentTime - error.held);
+        remaining -= error.held;
+        log.push(`[${sim.currentTime}] ${event.priority} preempted`);
+      }
+    }
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, job, 10, 2));
+  sim.events = scheduleEvent(sim, createEvent(sim, 3, job, 5, 1));
+  sim.events = scheduleEvent(sim, createEvent(sim, 4, job, 2, 0));
+  sim.events = scheduleEvent(sim, createEvent(sim, 5, job, 1, 3));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(log, [
+    "[0] 2 granted",
+    "[3] 1 granted",
+    "[3] 2 preempted",
+    "[4] 0 granted",
+    "[4] 1 preempted",
+    "[6] 0 done",
+    "[6] 1 granted",
+    "[10] 1 done",
+    "[10] 2 granted",
+    "[17] 2 done",
+    "[17] 3 granted",
+    "[18] 3 done",
+  ]);
+  assertEquals(resource.users.length, 0);
+});
+
+Deno.test("container levels", () => {
+  const sim = initializeSimulation();
+
+  const tank = createContainer(sim, 100, 50);
+  const log: string[] = [];
+
+  const consumer: Process<number> = function* (sim, event) {
+    yield* getAmount(sim, event, tank, event.item ?? 0);
+    log.push(`[${sim.currentTime}] got ${event.item}`);
+  };
+
+  const producer: Process<number> = function* (sim, event) {
+    yield* putAmount(sim, event, tank, event.item ?? 0);
+    log.push(`[${sim.currentTime}] put ${event.item}`);
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, consumer, 80));
+  sim.events = scheduleEvent(sim, createEvent(sim, 1, consumer, 5));
+  sim.events = scheduleEvent(sim, createEvent(sim, 5, producer, 40));
+  sim.events = scheduleEvent(sim, createEvent(sim, 10, producer, 100));
+  sim.events = scheduleEvent(sim, createEvent(sim, 20, consumer, 5));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(log, [
+    "[5] put 40",
+    "[5] got 80",
+    "[5] got 5",
+    "[20] got 5",
+    "[20] put 100",
+  ]);
+  assertEquals(tank.level, 100);
+  assertEquals(tank.history, [
+    { time: 0, level: 50 },
+    { time: 5, level: 90 },
+    { time: 5, level: 10 },
+    { time: 5, level: 5 },
+    { time: 20, level: 0 },
+    { time: 20, level: 100 },
+  ]);
+
+  assertThrows(() => createContainer(sim, 10, 20));
+});
+
+Deno.test("bounded store blocks producers", () => {
+  const sim = initializeSimulation();
+
+  const store = createStore<number>(2);
+  const log: string[] = [];
+
+  const prod: Process<number> = function* (sim, event) {
+    for (let item = 1; item <= 4; item++) {
+      yield* put(sim, event, store, item);
+      log.push(`[${sim.currentTime}] put ${item}`);
+    }
+  };
+
+  const cons: Process<number> = function* (sim, event) {
+    while (true) {
+      yield* timeout(sim, 10);
+      const item = yield* get(sim, event, store);
+      log.push(`[${sim.currentTime}] got ${item}`);
+    }
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, prod));
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, cons));
+
+  const _stats = runSimulation(sim, { until: 100 });
+
+  assertEquals(log, [
+    "[0] put 1",
+    "[0] put 2",
+    "[10] got 1",
+    "[10] put 3",
+    "[20] got 2",
+    "[20] put 4",
+    "[30] got 3",
+    "[40] got 4",
+  ]);
+  assertThrows(() => createStore(0));
+});
+
+Deno.test("filtered store gets", () => {
+  const sim = initializeSimulation();
+
+  const store = createStore<string>();
+  const result: Record<string, string> = {};
+
+  const prod: Process<string> = function* (sim, event) {
+    yield* put(sim, event, store, event.item ?? "");
+  };
+
+  const cons: Process<string> = function* (sim, event) {
+    const prefix = event.item ?? "";
+    const item = yield* get(
+      sim,
+      event,
+      store,
+      (item) => item.startsWith(prefix),
+    );
+    result[prefix] = `[${sim.currentTime}] ${item}`;
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, prod, "bolt-1"));
+  sim.events = scheduleEvent(sim, createEvent(sim, 1, cons, "nut"));
+  sim.events = scheduleEvent(sim, createEvent(sim, 2, cons, "bolt"));
+  sim.events = scheduleEvent(sim, createEvent(sim, 3, prod, "bolt-2"));
+  sim.events = scheduleEvent(sim, createEvent(sim, 4, prod, "nut-1"));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(result, { nut: "[4] nut-1", bolt: "[2] bolt-1" });
+  assertEquals(store.putRequests.map((request) => request.item), ["bolt-2"]);
+  assertEquals(store.getRequests.length, 0);
+});
+
+Deno.test("priority store hands out lowest keys first", () => {
+  const sim = initializeSimulation();
+
+  const store = createPriorityStore<number>((item) => item);
+  const result: number[] = [];
+
+  const prod: Process<number> = function* (sim, event) {
+    for (const item of [5, 3, 8, 3, 1]) {
+      yield* put(sim, event, store, item);
+    }
+  };
+
+  const cons: Process<number> = function* (sim, event) {
+    while (true) {
+      result.push((yield* get(sim, event, store)) ?? -1);
+    }
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, prod));
+  sim.events = scheduleEvent(sim, createEvent(sim, 1, cons));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(result, [1, 3, 3, 5, 8]);
+});
+
+Deno.test("interrupted and cancelled requests are withdrawn", () => {
+  const sim = initializeSimulation();
+
+  const store = createStore<string>();
+  const resource = createResource(sim, 1);
+  const tank = createContainer(sim, 100, 10);
+  const log: string[] = [];
+
+  const getter: Process<string> = function* (sim, event) {
+    try {
+      yield* get(sim, event, store);
+    } catch {
+      log.push(`[${sim.currentTime}] get interrupted`);
+    }
+  };
+
+  const holder: Process<string> = function* (sim, event) {
+    yield* request(sim, event, resource);
+    yield* timeout(sim, 10);
+    release(sim, event, resource);
+  };
+
+  const drainer: Process<number> = function* (sim, event) {
+    yield* getAmount(sim, event, tank, event.item ?? 0);
+    log.push(`[${sim.currentTime}] got ${event.item}`);
+  };
+
+  const e1 = createEvent(sim, 0, getter);
+  const e2 = createEvent(sim, 0, holder);
+  const e3 = createEvent(sim, 0, holder);
+  const e4 = createEvent(sim, 0, drainer, 50);
+  const e5 = createEvent(sim, 1, drainer, 5);
+  sim.events = scheduleEvent(sim, e1);
+  sim.events = scheduleEvent(sim, e2);
+  sim.events = scheduleEvent(sim, e3);
+  sim.events = scheduleEvent(sim, e4);
+  sim.events = scheduleEvent(sim, e5);
+
+  const _stats = runSimulation(sim, { until: 5 });
+  assertEquals(store.getRequests.length, 1);
+  assertEquals(resource.requests.length, 1);
+  assertEquals(tank.getRequests.length, 2);
+
+  sim.events = interrupt(sim, e1.id);
+  sim.events = cancelEvent(sim, e3.id);
+  sim.events = cancelEvent(sim, e4.id);
+
+  const _resumed = runSimulation(sim);
+
+  assertEquals(log, ["[5] get interrupted", "[5] got 5"]);
+  assertEquals(store.getRequests.length, 0);
+  assertEquals(store.filters, {});
+  assertEquals(resource.requests.length, 0);
+  assertEquals(resource.users.length, 0);
+  assertEquals(tank.getRequests.length, 0);
+  assertEquals(tank.level, 5);
+});
+
+Deno.test("interrupt and put in the same instant", () => {
+  const sim = initializeSimulation();
+  const store = createStore<string>();
+  const log: string[] = [];
+
+  const consumer: Process<string> = function* (sim, event) {
+    try {
+      const item = yield* get(sim, event, store);
+      log.push(`got ${item}`);
+    } catch (error) {
+      log.push(`[${sim.currentTime}] ${(error as Error).name}`);
+    }
+  };
+
+  const producer: Process<string> = function* (sim, event) {
+    yield* put(sim, event, store, "x");
+  };
+
+  const c = createEvent(sim, 0, consumer);
+  sim.events = scheduleEvent(sim, c);
+
+  const interrupter: Process = function* (sim) {
+    sim.events = interrupt(sim, c.id);
+    yield* timeout(sim, 0);
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 5, interrupter));
+  sim.events = scheduleEvent(sim, createEvent(sim, 5, producer));
+
+  runSimulation(sim);
+
+  // The interrupt wins, and the item handed over is given back to the store
+  assertEquals(log, ["[5] Interrupt"]);
+  assertEquals(store.putRequests.map(({ item }) => item), ["x"]);
+});
+
+Deno.test("interrupt and release in the same instant", () => {
+  const sim = initializeSimulation();
+  const resource = createResource(sim, 1);
+  const sink = createMemorySink();
+  const log: string[] = [];
+
+  const holder: Process = function* (sim, event) {
+    yield* request(sim, event, resource);
+    yield* timeout(sim, 5);
+    release(sim, event, resource);
+  };
+
+  const waiter: Process = function* (sim, event) {
+    try {
+      yield* request(sim, event, resource);
+      log.push(`[${sim.currentTime}] granted`);
+    } catch (error) {
+      log.push(`[${sim.currentTime}] ${(error as Error).name}`);
+    }
+  };
+
+  const w = createEvent(sim, 0, waiter);
+  const interrupter: Process = function* (sim) {
+    sim.events = interrupt(sim, w.id);
+    yield* timeout(sim, 0);
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, holder));
+  sim.events = scheduleEvent(sim, w);
+  sim.events = scheduleEvent(sim, createEvent(sim, 5, interrupter));
+
+  runSimulation(sim, { trace: { sink } });
+
+  // The interrupt wins, and the slot handed over is given back
+  assertEquals(log, ["[5] Interrupt"]);
+  assertEquals(resource.users.length, 0);
+  assert(
+    sink.records.some(({ kind, id, time }) =>
+      kind === TraceKind.Resume && id === w.id && time === 5
+    ),
+  );
+});
+
+Deno.test("reneging customers", () => {
+  const sim = initializeSimulation();
+
+  const store = createStore<string>();
+  const log: string[] = [];
+
+  const fetch: Process<string> = function* (sim, event) {
+    return yield* get(sim, event, store);
+  };
+
+  const customer: Process<string> = function* (sim, event) {
+    const patience = event.item === "patient" ? 20 : 5;
+    const getter = createEvent(sim, sim.currentTime, fetch);
+    const renege = createEvent<string>(sim, sim.currentTime + patience);
+
+    const values = yield* anyOf(sim, event, [getter, renege]);
+
+    if (getter.id in values) {
+      log.push(`[${sim.currentTime}] ${event.item} served`);
+    } else {
+      sim.events = cancelEvent(sim, getter.id);
+      log.push(`[${sim.currentTime}] ${event.item} reneged`);
+    }
+  };
+
+  const prod: Process<string> = function* (sim, event) {
+    yield* put(sim, event, store, "part");
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, customer, "impatient"));
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, customer, "patient"));
+  sim.events = scheduleEvent(sim, createEvent(sim, 10, prod));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(log, ["[5] impatient reneged", "[10] patient served"]);
+  assertEquals(store.getRequests.length, 0);
+  assertEquals(store.putRequests.length, 0);
+});
+
+Deno.test("failing process in a store exchange", () => {
+  const setup = (errorPolicy: ErrorPolicy) => {
+    const sim = initializeSimulation({ errorPolicy });
+
+    const store = createStore<string>();
+    const log: string[] = [];
+
+    const prod: Process<string> = function* (sim, event) {
+      yield* put(sim, event, store, event.item ?? "");
+      log.push(`[${sim.currentTime}] put ${event.item}`);
+    };
+
+    const cons: Process<string> = function* (sim, event) {
+      const item = yield* get(sim, event, store);
+
+      if (item === "defect") {
+        throw Error(`rejected ${item}`);
+      }
+
+      log.push(`[${sim.currentTime}] got ${item}`);
+    };
+
+    const c1 = createEvent(sim, 0, cons);
+    sim.events = scheduleEvent(sim, c1);
+    const c2 = createEvent(sim, 0, cons);
+    sim.events = scheduleEvent(sim, c2);
+    sim.events = scheduleEvent(sim, createEvent(sim, 5, prod, "defect"));
+    sim.events = scheduleEvent(sim, createEvent(sim, 10, prod, "part"));
+
+    return { sim, store, log, c1 };
+  };
+
+  // Abort: the run stops on the failing consumer, which is marked as failed
+  const aborted = setup(ErrorPolicy.Abort);
+  const error = assertThrows(
+    () => runSimulation(aborted.sim),
+    SimulationError,
+  );
+  assertEquals(error.eventId, aborted.c1.id);
+  assertEquals(error.time, 5);
+  assertEquals(aborted.log, ["[5] put defect"]);
+  assertEquals(
+    aborted.sim.events.find((event) => event.id === aborted.c1.id)?.status,
+    EventState.Failed,
+  );
+  assertEquals(aborted.store.getRequests.length, 1);
+
+  // Continue: the failing consumer is marked as failed, the exchange goes on
+  const continued = setup(ErrorPolicy.Continue);
+  const _stats = runSimulation(continued.sim);
+  assertEquals(continued.log, [
+    "[5] put defect",
+    "[10] put part",
+    "[10] got part",
+  ]);
+  assertEquals(
+    continued.sim.events.find((event) => event.id === continued.c1.id)?.status,
+    EventState.Failed,
+  );
+  assertEquals(continued.store.getRequests.length, 0);
+  assertEquals(continued.store.putRequests.length, 0);
+});
+
+Deno.test("signal wakes all waiting processes", () => {
+  const sim = initializeSimulation();
+  const repaired = createSignal<string>();
+  const log: string[] = [];
+
+  const worker: Process<string> = function* (sim, event) {
+    const value = yield* wait(sim, event, repaired);
+    log.push(`[${sim.currentTime}] ${event.item} resumes (${value})`);
+  };
+
+  const mechanic: Process = function* (sim) {
+    yield* timeout(sim, 10);
+    log.push(`[${sim.currentTime}] woke ${trigger(sim, repaired, "fixed")}`);
+
+    // Nobody is waiting anymore, and the signal doesn't latch
+    yield* timeout(sim, 10);
+    log.push(`[${sim.currentTime}] woke ${trigger(sim, repaired, "again")}`);
+  };
+
+  for (const name of ["a", "b", "c"]) {
+    sim.events = scheduleEvent(sim, createEvent(sim, 0, worker, name));
+  }
+  const late = createEvent(sim, 15, worker, "d");
+  sim.events = scheduleEvent(sim, late);
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, mechanic));
+
+  runSimulation(sim);
+
+  assertEquals(log, [
+    "[10] woke 3",
+    "[10] a resumes (fixed)",
+    "[10] b resumes (fixed)",
+    "[10] c resumes (fixed)",
+    "[20] woke 1",
+    "[20] d resumes (again)",
+  ]);
+  assertEquals(repaired.waiters, []);
+  assertEquals(repaired.values, {});
+});
+
+Deno.test("latching signal", () => {
+  const sim = initializeSimulation();
+  const shift = createLatch<number>();
+  const log: string[] = [];
+
+  const worker: Process<string> = function* (sim, event) {
+    const value = yield* wait(sim, event, shift);
+    log.push(`[${sim.currentTime}] ${event.item} starts shift ${value}`);
+  };
+
+  const supervisor: Process = function* (sim) {
+    yield* timeout(sim, 5);
+    trigger(sim, shift, 1);
+    yield* timeout(sim, 5);
+    resetSignal(shift);
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, worker, "early"));
+  sim.events = scheduleEvent(sim, createEvent(sim, 7, worker, "open"));
+  const closed = createEvent(sim, 12, worker, "closed");
+  sim.events = scheduleEvent(sim, closed);
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, supervisor));
+
+  runSimulation(sim, { until: 20 });
+
+  assertEquals(log, ["[5] early starts shift 1", "[7] open starts shift 1"]);
+  assertEquals(shift.waiters, [closed.id]);
+
+  // Interrupted processes stop waiting
+  interrupt(sim, closed.id);
+  assertThrows(() => runSimulation(sim), SimulationError);
+  assertEquals(shift.waiters, []);
+});
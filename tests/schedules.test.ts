@@ -0,0 +1,149 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { CalendarSchedule, Process } from "../src/model.ts";
+import { exponential, getStream } from "../src/random.ts";
+import {
+  createResource,
+  release,
+  request,
+  utilization,
+} from "../src/resources.ts";
+import {
+  nextScheduleChange,
+  scheduleCapacity,
+  scheduleRecurring,
+  scheduleValue,
+} from "../src/schedules.ts";
+import {
+  cancelEvent,
+  initializeSimulation,
+  runSimulation,
+  timeout,
+} from "../src/simulation.ts";
+
+const shifts: CalendarSchedule = {
+  period: 24,
+  windows: [{ from: 8, to: 16, value: 2 }, { from: 16, to: 24 }],
+};
+
+Deno.test("recurring process", () => {
+  const sim = initializeSimulation();
+  const times: number[] = [];
+  const items: (string | undefined)[] = [];
+
+  const tick: Process<string> = function* (sim, event) {
+    times.push(sim.currentTime);
+    items.push(event.item);
+    yield* timeout(sim, 100);
+  };
+
+  scheduleRecurring(
+    sim,
+    { start: 5, interval: 10, count: 3, item: "tick" },
+    tick,
+  );
+  runSimulation(sim);
+  assertEquals(times, [5, 15, 25]);
+  assertEquals(items, ["tick", "tick", "tick"]);
+
+  times.length = 0;
+  scheduleRecurring(sim, { interval: 10, until: sim.currentTime + 30 }, tick);
+  runSimulation(sim);
+  assertEquals(times, [125, 135, 145]);
+
+  assertThrows(() => scheduleRecurring(sim, {}, tick), Error);
+  assertThrows(() => scheduleRecurring(sim, { interval: 0 }, tick), RangeError);
+
+  // No occurrence at all
+  times.length = 0;
+  scheduleRecurring(sim, { interval: 10, count: 0 }, tick);
+  runSimulation(sim);
+  assertEquals(times, []);
+
+  for (const count of [-1, 1.5, NaN]) {
+    assertThrows(
+      () => scheduleRecurring(sim, { interval: 10, count }, tick),
+      RangeError,
+    );
+  }
+});
+
+Deno.test("random recurring process", () => {
+  const arrivals = (seed: number) => {
+    const sim = initializeSimulation({ seed });
+    const times: number[] = [];
+
+    const arrival: Process = function* (sim) {
+      times.push(sim.currentTime);
+      yield* timeout(sim, 1);
+    };
+
+    const handle = scheduleRecurring(sim, {
+      distribution: (sim) => exponential(getStream(sim, "arrivals"), 2),
+    }, arrival);
+
+    // Stop the arrivals after a while
+    runSimulation(sim, { until: 50 });
+    cancelEvent(sim, handle.id);
+    runSimulation(sim);
+
+    return times;
+  };
+
+  const times = arrivals(1);
+
+  assertEquals(times, arrivals(1));
+  assertEquals(times[0], 0);
+  assertEquals(times.every((time) => time < 50), true);
+  assertEquals(times.length > 10, true);
+});
+
+Deno.test("calendar schedule", () => {
+  assertEquals(scheduleValue(shifts, 0), 0);
+  assertEquals(scheduleValue(shifts, 8), 2);
+  assertEquals(scheduleValue(shifts, 20), 1);
+  assertEquals(scheduleValue(shifts, 24 + 12), 2);
+  assertEquals(scheduleValue({ ...shifts, origin: 4 }, 12), 2);
+
+  assertEquals(nextScheduleChange(shifts, 0), 8);
+  assertEquals(nextScheduleChange(shifts, 10), 16);
+  assertEquals(nextScheduleChange(shifts, 20), 24);
+  assertEquals(nextScheduleChange({ period: 24, windows: [] }, 0), Infinity);
+
+  // Adjacent windows with the same value make a single change
+  assertEquals(
+    nextScheduleChange({
+      period: 10,
+      windows: [{ from: 0, to: 5 }, { from: 5, to: 8 }],
+    }, 1),
+    8,
+  );
+
+  assertThrows(
+    () =>
+      nextScheduleChange({ period: 24, windows: [{ from: 20, to: 30 }] }, 0),
+    RangeError,
+  );
+});
+
+Deno.test("resource capacity following a schedule", () => {
+  const sim = initializeSimulation();
+  const desk = createResource(sim, 1);
+  const served: number[] = [];
+
+  const customer: Process = function* (sim, event) {
+    yield* request(sim, event, desk);
+    served.push(sim.currentTime);
+    yield* timeout(sim, 4);
+    release(sim, event, desk);
+  };
+
+  scheduleCapacity(sim, desk, shifts, 25);
+  scheduleRecurring(sim, { interval: 1, count: 5 }, customer);
+
+  runSimulation(sim);
+
+  // Closed until 8, then two desks, down to one at 16, closed again at 24
+  assertEquals(served, [8, 8, 12, 12, 16]);
+  assertEquals(desk.capacity, 0);
+  assertEquals(utilization(sim, desk), 20 / (8 * 2 + 8 * 1));
+});
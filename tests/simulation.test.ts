@@ -1,16 +1,33 @@
-import { assert, assertEquals, assertThrows } from "@std/assert";
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
 import {
+  AsyncProcess,
+  ConditionValue,
+  ErrorPolicy,
   Event,
+  EventPriority,
   EventState,
   Process,
   ProcessState,
   Simulation,
 } from "../src/model.ts";
 import {
+  allOf,
+  allOfEvent,
+  anyOf,
+  anyOfEvent,
+  cancelEvent,
   createEvent,
   initializeSimulation,
+  Interrupt,
+  interrupt,
+  join,
+  peek,
   runSimulation,
+  runSimulationAsync,
   scheduleEvent,
+  SimulationError,
+  spawn,
+  step,
   timeout,
 } from "../src/simulation.ts";
 
@@ -88,6 +105,31 @@ Deno.test("basic event ordering", () => {
   assert(sim.events.every((event) => event.status == EventState.Finished));
 });
 
+Deno.test("same-time event ordering with priorities", () => {
+  const sim = initializeSimulation();
+
+  const processedOrder: string[] = [];
+  const cb: Process = function* (_sim: Simulation, event: Event) {
+    processedOrder.push(event.id);
+    yield;
+  };
+
+  const e1 = createEvent(sim, 10, cb);
+  const e2 = createEvent(sim, 10, cb, undefined, EventPriority.Urgent);
+  const e3 = createEvent(sim, 10, cb);
+  const e4 = createEvent(sim, 10, cb, undefined, EventPriority.Urgent);
+  const e5 = createEvent(sim, 5, cb);
+
+  sim.events = scheduleEvent(sim, e1);
+  sim.events = scheduleEvent(sim, e2);
+  sim.events = scheduleEvent(sim, e3);
+  sim.events = scheduleEvent(sim, e4);
+  sim.events = scheduleEvent(sim, e5);
+
+  const _stats = runSimulation(sim);
+  assertEquals(processedOrder, [e5.id, e2.id, e4.id, e1.id, e3.id]);
+});
+
 Deno.test("scheduling events in the past", () => {
   const sim = initializeSimulation();
 
@@ -216,3 +258,480 @@ Deno.test("event timeout scheduling", () => {
 
   assert(sim.events.every((event) => event.status == EventState.Finished));
 });
+
+Deno.test("run until a time horizon and resume", () => {
+  const sim = initializeSimulation();
+
+  const ticks: number[] = [];
+
+  const clock: Process = function* (sim: Simulation) {
+    while (true) {
+      ticks.push(sim.currentTime);
+      yield* timeout(sim, 10);
+    }
+  };
+
+  const e1 = createEvent(sim, 0, clock);
+  sim.events = scheduleEvent(sim, e1);
+
+  const _stats = runSimulation(sim, { until: 25 });
+  assertEquals(sim.currentTime, 25);
+  assertEquals(ticks, [0, 10, 20]);
+  assertEquals(peek(sim), 30);
+
+  // Events at the horizon itself are left for the next run
+  const _resumed = runSimulation(sim, { until: 40 });
+  assertEquals(sim.currentTime, 40);
+  assertEquals(ticks, [0, 10, 20, 30]);
+
+  assertThrows(() => {
+    const _stats = runSimulation(sim, { until: 30 });
+  });
+});
+
+Deno.test("step by step execution", () => {
+  const sim = initializeSimulation();
+
+  assertEquals(peek(sim), Infinity);
+  assertEquals(step(sim), undefined);
+
+  const e1 = createEvent(sim, 10);
+  const e2 = createEvent(sim, 5);
+  sim.events = scheduleEvent(sim, e1);
+  sim.events = scheduleEvent(sim, e2);
+  assertEquals(peek(sim), 5);
+
+  const first = step(sim);
+  assertEquals(first?.id, e2.id);
+  assertEquals(first?.status, EventState.Finished);
+  assertEquals(sim.currentTime, 5);
+  assertEquals(peek(sim), 10);
+
+  const second = step(sim);
+  assertEquals(second?.id, e1.id);
+  assertEquals(sim.currentTime, 10);
+
+  assertEquals(peek(sim), Infinity);
+  assertEquals(step(sim), undefined);
+  assert(sim.events.every((event) => event.status == EventState.Finished));
+});
+
+Deno.test("event cancellation", () => {
+  const sim = initializeSimulation();
+
+  const processed: string[] = [];
+  const cb: Process = function* (_sim: Simulation, event: Event) {
+    processed.push(event.id);
+    yield;
+  };
+
+  const e1 = createEvent(sim, 10, cb);
+  const e2 = createEvent(sim, 20, cb);
+  sim.events = scheduleEvent(sim, e1);
+  sim.events = scheduleEvent(sim, e2);
+
+  sim.events = cancelEvent(sim, e1.id);
+
+  const _stats = runSimulation(sim);
+  assertEquals(processed, [e2.id]);
+  assertEquals(sim.events[0].status, EventState.Cancelled);
+  assertEquals(sim.events[0].finishedAt, 0);
+  assertEquals(sim.currentTime, 20);
+
+  assertThrows(() => cancelEvent(sim, e1.id));
+  assertThrows(() => cancelEvent(sim, "unknown"));
+});
+
+Deno.test("paused process cancellation", () => {
+  const sim = initializeSimulation();
+
+  const log: string[] = [];
+
+  const sleeper: Process = function* (sim: Simulation) {
+    try {
+      yield* timeout(sim, 100);
+      log.push("woke up");
+    } finally {
+      log.push(`[${sim.currentTime}] closed`);
+    }
+  };
+
+  const e1 = createEvent(sim, 0, sleeper);
+  sim.events = scheduleEvent(sim, e1);
+
+  const _stats = runSimulation(sim, { until: 50 });
+  sim.events = cancelEvent(sim, e1.id);
+  const _resumed = runSimulation(sim);
+
+  assertEquals(log, ["[50] closed"]);
+  assertEquals(
+    sim.events.find((event) => event.id === e1.id)?.status,
+    EventState.Cancelled,
+  );
+  assertEquals(sim.state[e1.id], undefined);
+});
+
+Deno.test("process interruption", () => {
+  const sim = initializeSimulation();
+
+  const log: string[] = [];
+
+  const sleeper: Process = function* (sim: Simulation) {
+    try {
+      yield* timeout(sim, 100);
+      log.push(`[${sim.currentTime}] woke up`);
+    } catch (error) {
+      assert(error instanceof Interrupt);
+      log.push(`[${sim.currentTime}] interrupted: ${error.cause}`);
+      yield* timeout(sim, 5);
+      log.push(`[${sim.currentTime}] recovered`);
+    }
+  };
+
+  const e1 = createEvent(sim, 0, sleeper);
+  sim.events = scheduleEvent(sim, e1);
+
+  const alarm: Process = function* (sim: Simulation) {
+    sim.events = interrupt(sim, e1.id, "alarm");
+    yield;
+  };
+
+  const e2 = createEvent(sim, 30, alarm);
+  sim.events = scheduleEvent(sim, e2);
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(log, ["[30] interrupted: alarm", "[35] recovered"]);
+  assertEquals(sim.currentTime, 100); // The original timeout still fires
+  assertThrows(() => interrupt(sim, e1.id));
+});
+
+Deno.test("wait for any of several events", () => {
+  const sim = initializeSimulation();
+
+  const log: string[] = [];
+
+  const work: Process<string> = function* (sim: Simulation) {
+    yield* timeout(sim, 10);
+  };
+
+  const waiter: Process = function* (sim: Simulation, event: Event) {
+    const task = createEvent(sim, sim.currentTime, work, "task");
+    const deadline = createEvent(sim, sim.currentTime + 5, undefined, "late");
+
+    const values = yield* anyOf(sim, event, [task, deadline]);
+    log.push(`[${sim.currentTime}] ${JSON.stringify(values)}`);
+
+    const rest = yield* anyOf(sim, event, [task]);
+    log.push(`[${sim.currentTime}] ${JSON.stringify(Object.values(rest))}`);
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, waiter));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(log.length, 2);
+  assert(log[0].startsWith("[5] {"));
+  assert(log[0].endsWith(':"late"}'));
+  assertEquals(log[1], '[10] ["task"]');
+  assertEquals(sim.waiters, {});
+});
+
+Deno.test("wait for all of several events", () => {
+  const sim = initializeSimulation();
+
+  let joinedAt = -1;
+  let joined: unknown[] = [];
+
+  const assemble: Process<number> = function* (
+    sim: Simulation,
+    event: Event<number>,
+  ) {
+    yield* timeout(sim, event.item ?? 0);
+  };
+
+  const join: Process = function* (sim: Simulation, event: Event) {
+    const parts = [3, 7, 5].map((duration) =>
+      createEvent(sim, sim.currentTime, assemble, duration)
+    );
+
+    const values = yield* allOf(sim, event, parts);
+    joinedAt = sim.currentTime;
+    joined = parts.map((part) => values[part.id]);
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, join));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(joinedAt, 7);
+  assertEquals(joined, [3, 7, 5]);
+  assertEquals(sim.waiters, {});
+});
+
+Deno.test("nested conditions", () => {
+  const sim = initializeSimulation();
+
+  const log: string[] = [];
+
+  const work: Process<number> = function* (
+    sim: Simulation,
+    event: Event<number>,
+  ) {
+    yield* timeout(sim, event.item ?? 0);
+  };
+
+  const waiter: Process<number> = function* (
+    sim: Simulation,
+    event: Event<number>,
+  ) {
+    const parts = [3, event.item ?? 0].map((duration) =>
+      createEvent(sim, sim.currentTime, work, duration)
+    );
+    const both = allOfEvent(sim, parts);
+    const deadline = createEvent<ConditionValue>(sim, sim.currentTime + 5);
+
+    const values = yield* anyOf(sim, event, [both, deadline]);
+
+    if (!(both.id in values)) {
+      log.push(`[${sim.currentTime}] late`);
+      return;
+    }
+
+    const done = values[both.id] as ConditionValue;
+    log.push(`[${sim.currentTime}] done ${parts.map((part) => done[part.id])}`);
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, waiter, 4));
+  sim.events = scheduleEvent(sim, createEvent(sim, 10, waiter, 7));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(log, ["[4] done 3,4", "[15] late"]);
+
+  const either = anyOfEvent(sim, [
+    createEvent(sim, sim.currentTime, work, 2),
+    createEvent(sim, sim.currentTime, work, 1),
+  ]);
+  runSimulation(sim);
+
+  const first = sim.events[sim.index.get(either.id)!].value;
+  assertEquals(Object.values(first ?? {}), [1]);
+  assertEquals(sim.waiters, {});
+});
+
+Deno.test("process return values", () => {
+  const sim = initializeSimulation();
+
+  const square: Process<number> = function* (
+    sim: Simulation,
+    event: Event<number>,
+  ) {
+    yield* timeout(sim, 5);
+    return (event.item ?? 0) ** 2;
+  };
+
+  const e1 = createEvent(sim, 0, square, 3);
+  sim.events = scheduleEvent(sim, e1);
+
+  const _stats = runSimulation(sim);
+
+  const finished = sim.events.find((event) => event.id === e1.id);
+  assertEquals(finished?.status, EventState.Finished);
+  assertEquals(finished?.value, 9);
+});
+
+Deno.test("spawn and join child processes", () => {
+  const sim = initializeSimulation();
+
+  const log: string[] = [];
+
+  const child: Process<number> = function* (
+    sim: Simulation,
+    event: Event<number>,
+  ) {
+    yield* timeout(sim, event.item ?? 0);
+
+    if ((event.item ?? 0) > 10) {
+      throw Error("too long");
+    }
+
+    return (event.item ?? 0) * 2;
+  };
+
+  const parent: Process<number> = function* (
+    sim: Simulation,
+    event: Event<number>,
+  ) {
+    const first = spawn(sim, child, 5);
+    const second = spawn(sim, child, 20);
+
+    const result = yield* join(sim, event, first);
+    log.push(`[${sim.currentTime}] first returned ${result}`);
+
+    try {
+      yield* join(sim, event, second);
+    } catch (error) {
+      log.push(
+        `[${sim.currentTime}] second failed: ${(error as Error).message}`,
+      );
+    }
+
+    // Joining a completed process returns immediately
+    const again = yield* join(sim, event, first);
+    log.push(`[${sim.currentTime}] first returned ${again}`);
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, parent));
+
+  const _stats = runSimulation(sim);
+
+  assertEquals(log, [
+    "[5] first returned 10",
+    "[20] second failed: too long",
+    "[20] first returned 10",
+  ]);
+});
+
+Deno.test("failing process aborts the run", () => {
+  const sim = initializeSimulation();
+
+  const failing: Process = function* (sim: Simulation) {
+    yield* timeout(sim, 5);
+    throw Error("broken");
+  };
+
+  const e1 = createEvent(sim, 10, failing);
+  const e2 = createEvent(sim, 20);
+  sim.events = scheduleEvent(sim, e1);
+  sim.events = scheduleEvent(sim, e2);
+
+  const error = assertThrows(() => runSimulation(sim), SimulationError);
+  assertEquals(error.eventId, e1.id);
+  assertEquals(error.time, 15);
+  assertEquals((error.cause as Error).message, "broken");
+  assert(error.processStack?.includes("broken"));
+
+  // The simulation is left consistent, and can be resumed
+  const failed = sim.events.find((event) => event.id === e1.id);
+  assertEquals(failed?.status, EventState.Failed);
+  assertEquals(failed?.finishedAt, 15);
+  assertEquals(sim.state[e1.id], undefined);
+
+  const _stats = runSimulation(sim);
+  assertEquals(sim.currentTime, 20);
+});
+
+Deno.test("error policies", () => {
+  const run = (errorPolicy: ErrorPolicy, joined: boolean): string[] => {
+    const sim = initializeSimulation({ errorPolicy });
+    const log: string[] = [];
+
+    const failing: Process = function* (sim: Simulation) {
+      yield* timeout(sim, 5);
+      throw Error("broken");
+    };
+
+    const parent: Process = function* (sim: Simulation, event: Event) {
+      const child = spawn(sim, failing);
+
+      try {
+        if (joined) {
+          yield* join(sim, event, child);
+        }
+        yield* timeout(sim, 10);
+        log.push(`[${sim.currentTime}] parent done`);
+      } catch (error) {
+        log.push(`[${sim.currentTime}] ${(error as Error).message}`);
+      }
+    };
+
+    sim.events = scheduleEvent(sim, createEvent(sim, 0, parent));
+
+    try {
+      const _stats = runSimulation(sim);
+    } catch (error) {
+      assert(error instanceof SimulationError);
+      log.push(`[${sim.currentTime}] aborted`);
+    }
+
+    return log;
+  };
+
+  assertEquals(run(ErrorPolicy.Abort, true), ["[5] aborted"]);
+  assertEquals(run(ErrorPolicy.Abort, false), ["[5] aborted"]);
+  assertEquals(run(ErrorPolicy.Propagate, true), ["[5] broken"]);
+  assertEquals(run(ErrorPolicy.Propagate, false), ["[5] aborted"]);
+  assertEquals(run(ErrorPolicy.Continue, true), ["[5] broken"]);
+  assertEquals(run(ErrorPolicy.Continue, false), ["[10] parent done"]);
+});
+
+Deno.test("async processes", async () => {
+  const sim = initializeSimulation();
+  const log: string[] = [];
+
+  const loader: AsyncProcess<string> = async function* (sim, event) {
+    log.push(`[${sim.currentTime}] loading`);
+
+    // Await external I/O, which takes no simulation time
+    const config = await new Promise<string>((resolve) =>
+      setTimeout(() => resolve("config"), 5)
+    );
+    log.push(`[${sim.currentTime}] loaded ${config}`);
+
+    yield* timeout(sim, 10);
+    log.push(`[${sim.currentTime}] ${event.item} done`);
+
+    return config;
+  };
+
+  const ticker: Process = function* (sim) {
+    for (let i = 0; i < 3; i++) {
+      log.push(`[${sim.currentTime}] tick`);
+      yield* timeout(sim, 5);
+    }
+  };
+
+  const handle = createEvent(sim, 0, loader, "loader");
+  sim.events = scheduleEvent(sim, handle);
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, ticker));
+
+  const stats = await runSimulationAsync(sim);
+
+  assertEquals(log, [
+    "[0] loading",
+    "[0] loaded config",
+    "[0] tick",
+    "[5] tick",
+    "[10] loader done",
+    "[10] tick",
+  ]);
+  assertEquals(stats.eventsProcessed, 10);
+  assertEquals(sim.events[sim.index.get(handle.id)!].value, "config");
+
+  // Synchronous runs don't support async processes
+  const other = initializeSimulation();
+  other.events = scheduleEvent(other, createEvent(other, 0, loader));
+
+  const error = assertThrows(() => runSimulation(other), SimulationError);
+  assert(String(error.cause).includes("runSimulationAsync()"));
+});
+
+Deno.test("failing async process", async () => {
+  const sim = initializeSimulation();
+
+  const failing: AsyncProcess = async function* (sim) {
+    yield* timeout(sim, 5);
+    await Promise.resolve();
+    throw Error("unreachable service");
+  };
+
+  sim.events = scheduleEvent(sim, createEvent(sim, 0, failing));
+
+  const error = await assertRejects(
+    () => runSimulationAsync(sim),
+    SimulationError,
+  );
+  assertEquals((error.cause as Error).message, "unreachable service");
+  assertEquals(sim.currentTime, 5);
+});
@@ -0,0 +1,127 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { Process, ProcessRegistry, Simulation } from "../src/model.ts";
+import { getTally, recordTally, summarizeTally } from "../src/monitors.ts";
+import { exponential, getStream } from "../src/random.ts";
+import { createStore, get, put } from "../src/resources.ts";
+import {
+  cancelEvent,
+  createEvent,
+  initializeSimulation,
+  interrupt,
+  runSimulation,
+  scheduleEvent,
+  timeout,
+} from "../src/simulation.ts";
+import { restore, snapshot } from "../src/snapshot.ts";
+
+/**
+ * Builds the processes of a producer/consumer model, with a fresh store.
+ */
+function createRegistry(): ProcessRegistry<number> {
+  const store = createStore<number>();
+
+  const producer: Process<number> = function* (sim, event) {
+    for (let i = 0; i < 20; i++) {
+      yield* timeout(sim, exponential(getStream(sim, "production"), 5));
+      yield* put(sim, event, store, i);
+    }
+  };
+
+  const consumer: Process<number> = function* (sim, event) {
+    try {
+      while (true) {
+        const item = yield* get(sim, event, store);
+        recordTally(getTally(sim, "items"), item ?? 0);
+      }
+    } catch {
+      // Interrupted: stop consuming
+    }
+  };
+
+  return { producer, consumer };
+}
+
+function history(sim: Simulation) {
+  return sim.events.map(({ id, status, scheduledAt, finishedAt, item }) => ({
+    id,
+    status,
+    scheduledAt,
+    finishedAt,
+    item,
+  }));
+}
+
+Deno.test("snapshot and restore", () => {
+  const registry = createRegistry();
+  const sim = initializeSimulation({ seed: 11, registry });
+
+  scheduleEvent(sim, createEvent(sim, 0, registry.producer));
+  const consumer = createEvent(sim, 0, registry.consumer);
+  scheduleEvent(sim, consumer);
+  const spare = createEvent(sim, 200, registry.consumer);
+  scheduleEvent(sim, spare);
+  scheduleEvent(sim, createEvent(sim, 300));
+
+  runSimulation(sim, { until: 30 });
+  cancelEvent(sim, spare.id);
+
+  const json = snapshot(sim);
+  const restored = restore(json, createRegistry());
+
+  assertEquals(restored.currentTime, 30);
+  assertEquals(restored.steps, sim.steps);
+  assertEquals(history(restored), history(sim));
+
+  // Both simulations carry on identically
+  runSimulation(sim, { until: 60 });
+  runSimulation(restored, { until: 60 });
+  interrupt(sim, consumer.id, "closing");
+  interrupt(restored, consumer.id, "closing");
+  runSimulation(sim);
+  runSimulation(restored);
+
+  assertEquals(history(restored), history(sim));
+  assertEquals(
+    summarizeTally(getTally(restored, "items")),
+    summarizeTally(getTally(sim, "items")),
+  );
+
+  // Snapshots of restored simulations can be restored again
+  assertEquals(
+    history(restore(snapshot(restored), createRegistry())),
+    history(sim),
+  );
+});
+
+Deno.test("snapshot errors", () => {
+  const sim = initializeSimulation({ seed: 1 });
+
+  const unregistered: Process = function* () {};
+  scheduleEvent(sim, createEvent(sim, 0, unregistered));
+
+  assertThrows(() => snapshot(sim), Error, "not found in the registry");
+
+  const json = snapshot(initializeSimulation({ seed: 1 }));
+
+  assertThrows(
+    () => restore(json.replace('"version":1', '"version":0'), {}),
+    Error,
+    "Unsupported snapshot version",
+  );
+
+  // Restoring with processes that behave differently is detected
+  const registry = createRegistry();
+  const original = initializeSimulation({ seed: 1, registry });
+  scheduleEvent(original, createEvent(original, 0, registry.producer));
+  runSimulation(original, { until: 50 });
+
+  assertThrows(
+    () =>
+      restore(snapshot(original), {
+        ...createRegistry(),
+        producer: function* () {},
+      }),
+    Error,
+    "Snapshot replay diverged",
+  );
+});
@@ -0,0 +1,133 @@
+import { assertEquals } from "@std/assert";
+import { EventState, Process, TraceKind } from "../src/model.ts";
+import { createStore, get, put } from "../src/resources.ts";
+import {
+  createEvent,
+  initializeSimulation,
+  runSimulation,
+  scheduleEvent,
+  timeout,
+} from "../src/simulation.ts";
+import {
+  createCsvSink,
+  createJsonLinesSink,
+  createMemorySink,
+  toCsv,
+  toJsonLines,
+} from "../src/trace.ts";
+
+Deno.test("trace records", () => {
+  const sim = initializeSimulation({ seed: 1 });
+  const store = createStore<string>();
+
+  const producer: Process<string> = function* (sim, event) {
+    yield* timeout(sim, 5);
+    yield* put(sim, event, store, "a,b");
+  };
+
+  const consumer: Process<string> = function* (sim, event) {
+    yield* get(sim, event, store);
+  };
+
+  const p = createEvent(sim, 0, producer);
+  const c = createEvent(sim, 0, consumer);
+  scheduleEvent(sim, p);
+  scheduleEvent(sim, c);
+
+  const sink = createMemorySink();
+  runSimulation(sim, { trace: { sink } });
+
+  // The hook is only used during the run
+  assertEquals(sim.trace, undefined);
+
+  const records = sink.records.map(({ time, kind, process }) =>
+    `[${time}] ${kind} ${process}`
+  );
+
+  assertEquals(records, [
+    "[0] start producer",
+    "[0] yield producer",
+    "[0] schedule idle",
+    "[0] schedule producer",
+    "[0] start consumer",
+    "[0] yield consumer",
+    "[5] start idle",
+    "[5] finish idle",
+    "[5] put producer",
+    "[5] get consumer",
+    "[5] resume consumer",
+    "[5] schedule consumer",
+    "[5] finish producer",
+    "[5] finish consumer",
+  ]);
+
+  const finish = sink.records[sink.records.length - 1];
+  assertEquals(finish.id, c.id);
+  assertEquals(finish.status, EventState.Finished);
+  assertEquals(sink.records[8].item, "a,b");
+});
+
+Deno.test("trace filter", () => {
+  const sim = initializeSimulation({ seed: 1 });
+
+  const foo: Process = function* (sim) {
+    yield* timeout(sim, 1);
+  };
+  const bar: Process = function* (sim) {
+    yield* timeout(sim, 2);
+  };
+
+  const event = createEvent(sim, 0, bar);
+  scheduleEvent(sim, createEvent(sim, 0, foo));
+  scheduleEvent(sim, event);
+
+  const sink = createMemorySink();
+  sim.trace = {
+    sink,
+    filter: { processes: ["bar"], kinds: [TraceKind.Start, TraceKind.Finish] },
+  };
+  runSimulation(sim);
+
+  assertEquals(
+    sink.records.map(({ time, kind, id }) => ({ time, kind, id })),
+    [
+      { time: 0, kind: TraceKind.Start, id: event.id },
+      { time: 2, kind: TraceKind.Finish, id: event.id },
+    ],
+  );
+});
+
+Deno.test("trace export", () => {
+  const records = [
+    { time: 0, kind: TraceKind.Start, id: "a", process: "foo" },
+    { time: 1, kind: TraceKind.Put, id: "a", process: "foo", item: 'x,"y"' },
+  ];
+
+  assertEquals(
+    toJsonLines(records),
+    '{"time":0,"kind":"start","id":"a","process":"foo"}\n' +
+      '{"time":1,"kind":"put","id":"a","process":"foo","item":"x,\\"y\\""}\n',
+  );
+
+  const csv = [
+    "time,kind,id,process,scheduledAt,status,next,item,resource,queue",
+    "0,start,a,foo,,,,,,",
+    '1,put,a,foo,,,,"""x,\\""y\\""""",,',
+  ];
+
+  assertEquals(toCsv(records), csv.map((line) => line + "\n").join(""));
+
+  // Streaming sinks produce the same lines
+  const lines: string[] = [];
+  const jsonLines: string[] = [];
+  const sink = createCsvSink((line) => lines.push(line));
+  const jsonSink = createJsonLinesSink((line) => jsonLines.push(line));
+
+  for (const record of records) {
+    sink.write(record);
+    jsonSink.write(record);
+  }
+
+  assertEquals(lines, csv);
+  assertEquals(jsonLines.join("\n") + "\n", toJsonLines(records));
+});